@@ -0,0 +1,68 @@
+/**
+ * BACKTEST RUNNER
+ * Replays a local file of 1m candles through the live entry/exit logic
+ *
+ * Usage: [STRATEGY=name] bun scripts/backtest.ts <candles.json> [report.json]
+ *   candles.json — array of Candle objects or raw Binance kline arrays
+ *   report.json  — defaults to data/backtest-report.json
+ */
+
+import * as fs from 'fs';
+import { runBacktest } from '../src/backtest/engine';
+import { normalizeCandles } from '../src/exchange/binance';
+import { formatSummary } from '../src/analytics';
+import { config } from '../src/config';
+import type { Candle } from '../src/types';
+
+function loadCandles(file: string): Candle[] {
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error(`${file} does not contain a candle array`);
+  }
+  const candles = Array.isArray(raw[0]) ? normalizeCandles(raw) : (raw as Candle[]);
+  return candles.sort((a, b) => a.time - b.time);
+}
+
+async function main() {
+  const [input, output = 'data/backtest-report.json'] = process.argv.slice(2);
+  if (!input) {
+    console.error('Usage: bun scripts/backtest.ts <candles.json> [report.json]');
+    process.exit(1);
+  }
+
+  const candles = loadCandles(input);
+  console.log(`📼 Replaying ${candles.length} candles from ${input} (strategy: ${config.strategyName})`);
+
+  const result = await runBacktest(candles, {
+    onTrade: p => {
+      const secs = ((p.exitTime! - p.entryTime) / 1000).toFixed(0);
+      console.log(`${(p.pnl || 0) >= 0 ? '💰' : '💸'} ${new Date(p.entryTime).toISOString()} ${p.side} NET $${(p.pnl || 0).toFixed(2)} in ${secs}s | ${p.reason}`);
+    },
+  });
+
+  console.log('\n📊 BACKTEST STATS:');
+  console.log(`   Period: ${new Date(result.from).toISOString()} → ${new Date(result.to).toISOString()}`);
+  console.log(`   Balance: $${result.state.balance.toFixed(2)} (start $${result.state.initialBalance.toFixed(2)})`);
+  console.log(`   Trades: ${result.stats.totalTrades} (${result.stats.wins}W/${result.stats.losses}L)`);
+  console.log(`   Win Rate: ${result.stats.winRate}%`);
+  console.log(`   ${formatSummary(result.analytics)}`);
+
+  fs.writeFileSync(output, JSON.stringify({
+    timestamp: new Date().toISOString(),
+    source: input,
+    strategy: result.strategy,
+    from: result.from,
+    to: result.to,
+    candles: result.candles,
+    stats: result.stats,
+    analytics: result.analytics,
+    ledger: result.state,
+  }, null, 2));
+
+  console.log(`\n📄 Full report: ${output}`);
+}
+
+main().catch(err => {
+  console.error('❌ Error:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+/**
+ * LIVE EXECUTION SMOKE RUN
+ * Drives Ledger.openPosition/reducePosition/closePosition through the LiveExecutor against
+ * the local mock exchange — signed requests, leverage, lot rounding, reduce-only exits, and
+ * reading back orders that are acked NEW before they fill.
+ *
+ * Usage: bun scripts/live-smoke.ts
+ */
+
+import { startMockExchange } from './mock-exchange';
+import { BinanceClient } from '../src/exchange/binance';
+import { BinanceFuturesClient } from '../src/exchange/binance-futures';
+import { LiveExecutor } from '../src/execution/executor';
+import { createPosition } from '../src/risk/recovery-manager';
+import { Ledger } from '../src/ledger';
+import { config } from '../src/config';
+
+async function main() {
+  const mock = startMockExchange({ price: 60000, pendingReads: 1 });
+  console.log(`🧪 Mock exchange on ${mock.url}`);
+
+  try {
+    const client = new BinanceClient(mock.url, new BinanceFuturesClient(mock.url, 'mock', 'mock'));
+    const ledger = new Ledger({ persist: false, executor: new LiveExecutor(client, 'BTCUSDT') });
+
+    // 0.009 BTC: after the 0.004 leg the remainder is float dust (0.004999…), which the close must round
+    const collateral = (0.009 * 60000) / config.futures.leverage;
+    const opened = await ledger.openPosition(createPosition('Long', 60000, collateral));
+    console.log(`🟢 Opened ${opened.id}: qty ${opened.quantity} @ $${opened.entryPrice.toFixed(2)} (order ${opened.entryOrderId})`);
+
+    if (mock.leverage['BTCUSDT'] !== config.futures.leverage) {
+      throw new Error(`Leverage not set (mock has ${mock.leverage['BTCUSDT']})`);
+    }
+
+    const openedQty = opened.quantity!;
+    const leg = await ledger.reducePosition(opened.id, 0.5, opened.entryPrice, 'smoke-partial');
+    console.log(`🟡 Reduced ${leg!.quantity} @ $${leg!.price.toFixed(2)} (order ${leg!.orderId}) NET $${leg!.pnl.toFixed(2)}`);
+    if (Math.abs(mock.positions['BTCUSDT'] - (openedQty - leg!.quantity!)) > 1e-9) {
+      throw new Error(`Mock position not reduced: ${mock.positions['BTCUSDT']}`);
+    }
+
+    const closed = await ledger.closePosition(opened.id, opened.entryPrice, 'smoke-test');
+    console.log(`🔴 Closed @ $${closed!.exitPrice!.toFixed(2)} (order ${closed!.exitOrderId}) NET $${closed!.pnl!.toFixed(2)}`);
+
+    if (mock.positions['BTCUSDT'] !== 0) {
+      throw new Error(`Mock position not flat: ${mock.positions['BTCUSDT']}`);
+    }
+    console.log('✅ Live execution path OK');
+  } finally {
+    mock.server.stop(true);
+  }
+}
+
+main().catch(err => {
+  console.error('❌ Error:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,143 @@
+/**
+ * MOCK BINANCE FUTURES EXCHANGE
+ * Local stand-in for fapi.binance.com so the live execution path can be run
+ * end to end without real keys or money. Verifies HMAC signatures, fills market
+ * orders at a drifting mock price and tracks the net position per symbol. Quantities
+ * off the LOT_SIZE step are rejected like the real venue does. With pendingReads, orders
+ * report NEW (no average price) that many times before FILLED, to exercise the read-back.
+ *
+ * Usage: bun scripts/mock-exchange.ts [port]
+ *        then TRADING_MODE=live FUTURES_BASE_URL=http://localhost:<port> \
+ *             BINANCE_API_KEY=mock BINANCE_API_SECRET=mock bun src/server.ts
+ */
+
+import { createHmac } from 'crypto';
+
+export interface MockExchangeOptions {
+  port?: number;
+  apiKey?: string;
+  apiSecret?: string;
+  price?: number;
+  stepSize?: string;
+  minQty?: string;
+  pendingReads?: number;
+}
+
+export function startMockExchange(options: MockExchangeOptions = {}) {
+  const apiKey = options.apiKey ?? 'mock';
+  const apiSecret = options.apiSecret ?? 'mock';
+  const stepSize = options.stepSize ?? '0.001';
+  const stepDecimals = (stepSize.split('.')[1] || '').replace(/0+$/, '').length;
+  let price = options.price ?? 60000;
+  let nextOrderId = 1000;
+  const leverage: Record<string, number> = {};
+  const positions: Record<string, number> = {};
+  const orders = new Map<string, { order: Record<string, unknown>; pending: number }>();
+
+  // NEW until the order has been read pendingReads times (the create response counts)
+  const view = (entry: { order: Record<string, unknown>; pending: number }) =>
+    entry.pending-- > 0 ? { ...entry.order, status: 'NEW', executedQty: '0', avgPrice: '0.00' } : entry.order;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  const reject = (code: number, msg: string, status = 400) => json({ code, msg }, status);
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      const params = url.searchParams;
+
+      if (url.pathname === '/fapi/v1/exchangeInfo') {
+        return json({
+          symbols: [{
+            symbol: 'BTCUSDT',
+            filters: [{ filterType: 'LOT_SIZE', stepSize, minQty: options.minQty ?? '0.001' }],
+          }],
+        });
+      }
+
+      if (url.pathname === '/fapi/v1/ticker/price') {
+        return json({ symbol: params.get('symbol'), price: price.toFixed(2) });
+      }
+
+      // Everything else is a signed endpoint
+      if (req.headers.get('X-MBX-APIKEY') !== apiKey) {
+        return reject(-2015, 'Invalid API-key', 401);
+      }
+      const signature = params.get('signature');
+      const unsigned = url.search.slice(1).replace(/&signature=[0-9a-f]+$/, '');
+      if (signature !== createHmac('sha256', apiSecret).update(unsigned).digest('hex')) {
+        return reject(-1022, 'Signature for this request is not valid.');
+      }
+
+      if (url.pathname === '/fapi/v1/leverage' && req.method === 'POST') {
+        const symbol = params.get('symbol')!;
+        leverage[symbol] = parseInt(params.get('leverage') || '1');
+        return json({ symbol, leverage: leverage[symbol], maxNotionalValue: '1000000' });
+      }
+
+      if (url.pathname === '/fapi/v1/order' && req.method === 'POST') {
+        const symbol = params.get('symbol')!;
+        const side = params.get('side');
+        const rawQuantity = params.get('quantity') || '0';
+        const quantity = parseFloat(rawQuantity);
+        const signed = side === 'BUY' ? quantity : -quantity;
+        const current = positions[symbol] || 0;
+
+        const steps = quantity / parseFloat(stepSize);
+        if ((rawQuantity.split('.')[1] || '').length > stepDecimals || Math.abs(steps - Math.round(steps)) > 1e-9) {
+          return reject(-1111, 'Precision is over the maximum defined for this asset.');
+        }
+
+        if (params.get('reduceOnly') === 'true' && (current === 0 || Math.sign(signed) === Math.sign(current))) {
+          return reject(-2022, 'ReduceOnly Order is rejected.');
+        }
+
+        // Random walk so entry and exit fills differ
+        price = price * (1 + (Math.random() - 0.5) * 0.001);
+        positions[symbol] = parseFloat((current + signed).toFixed(stepDecimals));
+
+        const entry = {
+          order: {
+            orderId: nextOrderId++,
+            symbol,
+            status: 'FILLED',
+            side,
+            type: 'MARKET',
+            origQty: quantity.toString(),
+            executedQty: quantity.toString(),
+            avgPrice: price.toFixed(2),
+            reduceOnly: params.get('reduceOnly') === 'true',
+          },
+          pending: options.pendingReads ?? 0,
+        };
+        orders.set(String(entry.order.orderId), entry);
+        return json(view(entry));
+      }
+
+      if (url.pathname === '/fapi/v1/order' && (req.method === 'GET' || req.method === 'DELETE')) {
+        const entry = orders.get(params.get('orderId') || '');
+        if (!entry) return reject(-2013, 'Order does not exist.');
+        // The fill already happened — a cancel comes too late, like on the real venue
+        if (req.method === 'DELETE') return reject(-2011, 'Unknown order sent.');
+        return json(view(entry));
+      }
+
+      return reject(-1000, `Unknown endpoint ${req.method} ${url.pathname}`, 404);
+    },
+  });
+
+  return {
+    server,
+    url: `http://localhost:${server.port}`,
+    positions,
+    leverage,
+  };
+}
+
+if (import.meta.main) {
+  const port = parseInt(process.argv[2] || '4010');
+  const mock = startMockExchange({ port });
+  console.log(`🧪 Mock Binance futures on ${mock.url} (key/secret: mock/mock)`);
+}
@@ -7,37 +7,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-
-interface Position {
-  id: string;
-  side: 'Long' | 'Short';
-  entryPrice: number;
-  entryTime: number;
-  exitPrice?: number;
-  exitTime?: number;
-  collateral: number;
-  leverage: number;
-  stopLoss: number;
-  takeProfit: number;
-  minProfitTarget: number;
-  maxProfitTarget: number;
-  status: 'open' | 'closed';
-  pnl?: number;
-  reason?: string;
-}
-
-interface LedgerData {
-  balance: number;
-  initialBalance: number;
-  dailyStartBalance: number;
-  dailyPnl: number;
-  consecutiveLosses: number;
-  positions: Position[];
-  lastReset: string;
-  tradesThisHour: number;
-  lastHourReset: string;
-  pausedUntil: number;
-}
+import { Ledger } from '../src/ledger';
+import { PaperExecutor } from '../src/execution/executor';
+import { analyzePositions } from '../src/analytics';
+import type { Position } from '../src/risk/recovery-manager';
 
 const OPENROUTER_KEY = process.env.OPENROUTER_KEY || '';
 const TWELVE_DATA_KEY = process.env.TWELVE_DATA_KEY || '';
@@ -109,8 +82,10 @@ async function analyzeLedger(): Promise<{
   patterns: any;
   anomalies: string[];
 }> {
-  const ledgerPath = path.join(__dirname, '../data/ledger.json');
-  const ledger: LedgerData = JSON.parse(fs.readFileSync(ledgerPath, 'utf-8'));
+  // Snapshot + journal replay, read-only
+  const reader = new Ledger({ persist: false, executor: new PaperExecutor() });
+  await reader.load();
+  const ledger = reader.state;
 
   const closedPositions = ledger.positions.filter(p => p.status === 'closed' && p.pnl !== undefined);
   const recentPositions = closedPositions.slice(-100);
@@ -120,15 +95,9 @@ async function analyzeLedger(): Promise<{
     process.exit(0);
   }
 
-  const wins = recentPositions.filter(p => (p.pnl || 0) > 0);
-  const losses = recentPositions.filter(p => (p.pnl || 0) < 0);
-  const breakevens = recentPositions.filter(p => p.pnl === 0);
-
-  const winRate = (wins.length / recentPositions.length) * 100;
-  const avgWin = wins.length > 0 ? wins.reduce((sum, p) => sum + (p.pnl || 0), 0) / wins.length : 0;
-  const avgLoss = losses.length > 0 ? losses.reduce((sum, p) => sum + Math.abs(p.pnl || 0), 0) / losses.length : 0;
-  const expectancy = (winRate / 100 * avgWin) - ((100 - winRate) / 100 * avgLoss);
-  const profitFactor = avgLoss > 0 ? (avgWin * wins.length) / (avgLoss * losses.length) : Infinity;
+  // Equity before the window = start balance + everything closed before it
+  const earlierPnl = closedPositions.slice(0, -recentPositions.length).reduce((sum, p) => sum + (p.pnl || 0), 0);
+  const report = analyzePositions(recentPositions, ledger.initialBalance + earlierPnl);
 
   // DETECT ANOMALIES (potential bugs)
   const anomalies: string[] = [];
@@ -162,72 +131,46 @@ async function analyzeLedger(): Promise<{
   }
 
   // Check for collateral accounting
-  const openPositions = ledger.positions.filter(p => p.status === 'open');
+  const openPositions = ledger.positions.filter(p => p.status !== 'closed');
   const openCollateral = openPositions.reduce((sum, p) => sum + p.collateral, 0);
   if (openCollateral > ledger.balance) {
     anomalies.push(`⚠️ Open collateral ($${openCollateral}) exceeds balance ($${ledger.balance.toFixed(2)})`);
   }
 
-  const closeReasons = recentPositions.reduce((acc, p) => {
-    const reason = p.reason || 'unknown';
-    acc[reason] = (acc[reason] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-
-  // PnL by reason
-  const pnlByReason = recentPositions.reduce((acc, p) => {
-    const reason = p.reason || 'unknown';
-    if (!acc[reason]) acc[reason] = { count: 0, totalPnl: 0, wins: 0 };
-    acc[reason].count++;
-    acc[reason].totalPnl += p.pnl || 0;
-    if ((p.pnl || 0) > 0) acc[reason].wins++;
-    return acc;
-  }, {} as Record<string, { count: number; totalPnl: number; wins: number }>);
-
-  const byHour = recentPositions.reduce((acc, p) => {
-    const hour = new Date(p.entryTime).getUTCHours();
-    if (!acc[hour]) acc[hour] = { trades: [], wins: 0, pnl: 0 };
-    acc[hour].trades.push(p);
-    if ((p.pnl || 0) > 0) acc[hour].wins++;
-    acc[hour].pnl += p.pnl || 0;
-    return acc;
-  }, {} as Record<number, { trades: Position[]; wins: number; pnl: number }>);
-
-  // Side analysis
-  const longs = recentPositions.filter(p => p.side === 'Long');
-  const shorts = recentPositions.filter(p => p.side === 'Short');
-  const longWinRate = longs.length > 0 ? (longs.filter(p => (p.pnl || 0) > 0).length / longs.length * 100) : 0;
-  const shortWinRate = shorts.length > 0 ? (shorts.filter(p => (p.pnl || 0) > 0).length / shorts.length * 100) : 0;
-
-  // Average trade duration
-  const durations = recentPositions
-    .filter(p => p.exitTime && p.entryTime)
-    .map(p => ((p.exitTime! - p.entryTime) / 1000));
-  const avgDuration = durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : 0;
+  const closeReasons = Object.fromEntries(
+    Object.entries(report.byReason).map(([reason, r]) => [reason, r.trades])
+  );
+  const fmt = (r: { trades: number; pnl: number; winRate: number }) =>
+    `${r.trades} trades, $${r.pnl.toFixed(2)} PnL, ${r.winRate.toFixed(0)}% win`;
 
   const stats = {
     currentBalance: '$' + ledger.balance.toFixed(2),
-    totalClosedTrades: recentPositions.length,
-    wins: wins.length,
-    losses: losses.length,
-    breakevens: breakevens.length,
-    winRate: winRate.toFixed(1) + '%',
-    avgWin: '$' + avgWin.toFixed(2),
-    avgLoss: '$' + avgLoss.toFixed(2),
-    expectancy: '$' + expectancy.toFixed(3),
-    profitFactor: profitFactor.toFixed(2),
-    totalPnl: '$' + recentPositions.reduce((sum, p) => sum + (p.pnl || 0), 0).toFixed(2),
-    avgDurationSeconds: avgDuration.toFixed(0),
-    longWinRate: longWinRate.toFixed(1) + '%',
-    shortWinRate: shortWinRate.toFixed(1) + '%',
+    totalClosedTrades: report.trades,
+    wins: report.wins,
+    losses: report.losses,
+    breakevens: report.breakevens,
+    winRate: report.winRate.toFixed(1) + '%',
+    avgWin: '$' + report.avgWin.toFixed(2),
+    avgLoss: '$' + report.avgLoss.toFixed(2),
+    expectancy: '$' + report.expectancy.toFixed(3),
+    profitFactor: report.profitFactor.toFixed(2),
+    totalPnl: '$' + report.totalPnl.toFixed(2),
+    maxDrawdown: `$${report.maxDrawdown.toFixed(2)} (${report.maxDrawdownPercent.toFixed(1)}%, ${(report.maxDrawdownDurationMs / 3600000).toFixed(1)}h)`,
+    sharpe: `${report.sharpe.perTrade.toFixed(3)}/trade, ${report.sharpe.daily.toFixed(2)} daily (ann.)`,
+    sortino: `${report.sortino.perTrade.toFixed(3)}/trade, ${report.sortino.daily.toFixed(2)} daily (ann.)`,
+    avgMae: report.avgMaePercent.toFixed(3) + '%',
+    avgMfe: report.avgMfePercent.toFixed(3) + '%',
+    longestStreaks: `${report.longestWinStreak}W / ${report.longestLossStreak}L`,
+    avgDurationSeconds: report.avgDurationSeconds.toFixed(0),
+    longWinRate: (report.bySide.Long?.winRate ?? 0).toFixed(1) + '%',
+    shortWinRate: (report.bySide.Short?.winRate ?? 0).toFixed(1) + '%',
     consecutiveLosses: ledger.consecutiveLosses,
     openPositions: openPositions.length,
-    pnlByReason: Object.fromEntries(
-      Object.entries(pnlByReason).map(([k, v]) => [k, `${v.count} trades, $${v.totalPnl.toFixed(2)} PnL, ${(v.wins / v.count * 100).toFixed(0)}% win`])
-    )
+    pnlByReason: Object.fromEntries(Object.entries(report.byReason).map(([k, v]) => [k, fmt(v)])),
+    pnlByRegime: Object.fromEntries(Object.entries(report.byRegime).map(([k, v]) => [k, fmt(v)])),
   };
 
-  return { positions: recentPositions, stats, patterns: { closeReasons, byHour }, anomalies };
+  return { positions: recentPositions, stats, patterns: { closeReasons, byHour: report.byHour }, anomalies };
 }
 
 function readCodeFiles(): Record<string, string> {
@@ -251,7 +194,7 @@ async function getOptimizerResponse(
   const hourlyPerf = Object.entries(analysis.patterns.byHour)
     .sort(([a], [b]) => Number(a) - Number(b))
     .map(([hour, data]: [string, any]) =>
-      `Hour ${hour}UTC: ${data.trades.length} trades, ${data.trades.length > 0 ? ((data.wins / data.trades.length) * 100).toFixed(0) : 0}% win, $${data.pnl.toFixed(2)} PnL`
+      `Hour ${hour}UTC: ${data.trades} trades, ${data.winRate.toFixed(0)}% win, $${data.pnl.toFixed(2)} PnL`
     )
     .join('\n');
 
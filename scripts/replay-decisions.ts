@@ -0,0 +1,92 @@
+/**
+ * DECISION REPLAY
+ * Re-runs every logged scan decision through its strategy and checks it matches
+ *
+ * Usage: bun scripts/replay-decisions.ts [decisions.jsonl ...] [--scan N]
+ *   decisions.jsonl — defaults to data/decisions.jsonl (pass rotated .1, .2 … too)
+ *   --scan N        — print the logged inputs and the replayed signal for scan #N
+ *
+ * Exits 1 if any replayed decision differs from the logged one.
+ */
+
+import * as fs from 'fs';
+import { config } from '../src/config';
+import { replayDecision, ScanRecord } from '../src/decision-log';
+
+function loadRecords(file: string): ScanRecord[] {
+  const lines = fs.readFileSync(file, 'utf-8').split('\n');
+  const records: ScanRecord[] = [];
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // A torn last line is expected if the bot was killed mid-write
+      if (i < lines.length - 1) throw new Error(`${file} line ${i + 1} is not valid JSON`);
+    }
+  });
+  return records;
+}
+
+function explain(record: ScanRecord) {
+  const result = replayDecision(record);
+  console.log(`\n🔎 Scan #${record.scan} @ ${new Date(record.time).toISOString()}`);
+  console.log(`   Logged: ${record.action} — ${record.reason}`);
+  if (record.overrides) console.log(`   Overrides: ${JSON.stringify(record.overrides)}`);
+  if (record.canOpen) console.log(`   canOpenPosition: ${JSON.stringify(record.canOpen)}`);
+  if (record.cooldownMs !== undefined) console.log(`   Cooldown left: ${record.cooldownMs}ms`);
+  if (record.closed.length > 0) console.log(`   Closed: ${JSON.stringify(record.closed)}`);
+  if (record.opened) console.log(`   Opened: ${JSON.stringify(record.opened)}`);
+  if (record.error) console.log(`   Error: ${record.error}`);
+  if (!result.replayable) {
+    console.log('   (never reached the strategy — nothing to replay)');
+    return;
+  }
+  console.log(`   Replayed: ${result.action} — ${result.signal!.reason}`);
+  console.log(`   Diagnostics: ${JSON.stringify(result.signal!.diagnostics)}`);
+  console.log(result.match ? '   ✅ Matches' : `   ❌ ${result.diffs.join('\n   ❌ ')}`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const scanFlag = args.indexOf('--scan');
+  const scan = scanFlag >= 0 ? parseInt(args[scanFlag + 1]) : null;
+  const files = scanFlag >= 0 ? args.filter((_, i) => i !== scanFlag && i !== scanFlag + 1) : args;
+  if (files.length === 0) files.push(config.decisionLog.path);
+
+  const records = files.flatMap(loadRecords).sort((a, b) => a.time - b.time);
+
+  if (scan !== null) {
+    const matching = records.filter(r => r.scan === scan);
+    if (matching.length === 0) {
+      console.error(`No scan #${scan} in ${files.join(', ')}`);
+      process.exit(1);
+    }
+    // Scan numbers restart with the process, so one number can match several runs
+    matching.forEach(explain);
+    return;
+  }
+
+  let replayed = 0;
+  let mismatched = 0;
+  for (const record of records) {
+    const result = replayDecision(record);
+    if (!result.replayable) continue;
+    replayed++;
+    if (!result.match) {
+      mismatched++;
+      console.log(`❌ Scan #${record.scan} @ ${new Date(record.time).toISOString()}`);
+      for (const diff of result.diffs) console.log(`   ${diff}`);
+    }
+  }
+
+  const byAction: Record<string, number> = {};
+  for (const r of records) byAction[r.action] = (byAction[r.action] || 0) + 1;
+
+  console.log(`\n📼 ${records.length} scans from ${files.join(', ')}`);
+  console.log(`   Actions: ${Object.entries(byAction).map(([a, n]) => `${a} ${n}`).join(' | ')}`);
+  console.log(`   Replayed ${replayed} decisions: ${replayed - mismatched} match, ${mismatched} differ`);
+  if (mismatched > 0) process.exit(1);
+}
+
+main();
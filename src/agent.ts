@@ -3,32 +3,24 @@
 
 import { config } from "./config";
 import { log, error } from "./logger";
-import { BinanceClient } from "./exchange/binance";
-import { detectMomentum, Candle } from "./strategy/momentum-strategy";
+import { createMarketData } from "./exchange/factory";
+import { getStrategy, fetchTimeframes } from "./strategy/registry";
 import {
   createPosition,
-  updatePosition,
+  barsSinceLastCheck,
+  snapshotBar,
 } from "./risk/recovery-manager";
 import { Ledger } from "./ledger";
-
-function normalizeCandles(rawKlines: any[]): Candle[] {
-  return rawKlines.map((k: any) => ({
-    time: k[0],
-    open: parseFloat(k[1]),
-    high: parseFloat(k[2]),
-    low: parseFloat(k[3]),
-    close: parseFloat(k[4]),
-    volume: parseFloat(k[5]),
-  }));
-}
+import { sizePosition, sizingHistory } from "./risk/sizing";
 
 let lastSignalTime = 0;
 const MIN_SIGNAL_INTERVAL = 30000; // 30 sec cooldown between trades
+const strategy = getStrategy();
 
 async function main() {
   log("MOMENTUM RIDER Running");
   
-  const client = new BinanceClient(config.dataSource.baseUrl);
+  const client = createMarketData();
   const ledger = new Ledger();
   await ledger.load();
   
@@ -42,24 +34,29 @@ async function main() {
     log("   P&L: $" + stats.dailyPnl + " (" + stats.dailyPnlPercent + "%)");
     log("   Trades: " + stats.totalTrades + " (" + stats.wins + "W/" + stats.losses + "L)");
     log("   Win Rate: " + stats.winRate + "%");
-    ledger.resetDaily();
+    await ledger.resetDaily();
     await ledger.save();
   }
   
   try {
     // 1-minute candles for speed
-    const klines = await client.getKlines(
+    const candles = await client.getCandles(
       config.symbol,
       config.candleInterval,
-      config.candleLimit
+      Math.max(config.candleLimit, strategy.history, sizingHistory())
     );
-    const candles = normalizeCandles(klines.list);
     const currentPrice = candles[candles.length - 1].close;
     
     // Check open positions first
     const openBefore = [...ledger.openPositions];
     for (const position of openBefore) {
-      const update = updatePosition(position, currentPrice);
+      const bars = barsSinceLastCheck(position, candles);
+      position.lastBar = snapshotBar(candles[candles.length - 1]);
+      const update = await ledger.runExitLadder(position, bars, undefined, ({ stopMoved, recovery, reduce }, leg) => {
+        if (stopMoved) log("🔒 STOP " + position.side + " $" + stopMoved.from.toFixed(2) + " → $" + stopMoved.to.toFixed(2) + " (" + stopMoved.reason + ")");
+        if (recovery) log("🩹 RECOVERY " + position.side + " stop hit (NET $" + recovery.stopOutPnl.toFixed(2) + "), hard stop $" + recovery.stopLoss.toFixed(2));
+        if (reduce && leg) log("💵 PARTIAL " + position.side + " " + (reduce.fraction * 100).toFixed(0) + "% NET $" + leg.pnl.toFixed(2) + " @ $" + leg.price.toFixed(2));
+      });
       
       if (update.shouldClose) {
         const closed = await ledger.closePosition(
@@ -69,8 +66,8 @@ async function main() {
         );
         
         const pnl = closed?.pnl || 0;
-        const fees = (closed as any)?.fees || 0;
-        const grossPnl = (closed as any)?.grossPnl || 0;
+        const fees = closed?.fees || 0;
+        const grossPnl = closed?.grossPnl || 0;
         const emoji = pnl >= 0 ? "💰" : "💸";
         const timeElapsed = ((closed?.exitTime || 0) - (closed?.entryTime || 0)) / 1000;
         log(emoji + " CLOSED " + position.side + " NET $" + pnl.toFixed(2) + " (gross $" + grossPnl.toFixed(2) + " - $" + fees.toFixed(2) + " fees) in " + timeElapsed.toFixed(0) + "s | " + (closed?.reason || ""));
@@ -79,7 +76,6 @@ async function main() {
     
     // Status
     const stats = ledger.stats;
-    const posSize = (config.risk.positionSizeDollars * config.futures.leverage).toFixed(0);
     log("💎 $" + ledger.state.balance.toFixed(2) + " | Day: $" + stats.dailyPnl + " (net) | " + stats.totalTrades + " trades (" + stats.winRate + "% W) | BTC: $" + currentPrice.toFixed(2));
     
     // Can we trade?
@@ -95,35 +91,63 @@ async function main() {
       return;
     }
     
-    // DETECT MOMENTUM
-    const signal = detectMomentum(candles);
+    // DETECT — configured strategy
+    const signal = strategy.evaluate({ candles: candles.slice(-strategy.history), timeframes: await fetchTimeframes(strategy, client, config.symbol) });
     
     if (!signal.detected) {
       log("🔍 " + signal.reason);
       return;
     }
     
+    // SIZE — the fixed size (SIZING=atr: ATR stop/target and risk-based notional)
+    const plan = sizePosition({
+      symbol: config.symbol,
+      side: signal.side!,
+      candles: candles.slice(-sizingHistory()),
+      price: currentPrice,
+      leverage: config.futures.leverage,
+      marginBudget: config.risk.positionSizeDollars,
+      open: ledger.openPositions,
+      exits: signal.exits ?? strategy.exits,
+    });
+    if (!plan.allowed) {
+      log("📏 " + plan.reason);
+      return;
+    }
+    
     log("⚡ " + signal.reason);
     
     // OPEN POSITION
     const position = createPosition(
       signal.side!,
       currentPrice,
-      config.risk.positionSizeDollars
+      plan.collateral,
+      undefined,
+      plan.exits,
+      plan.leverage
     );
+    position.symbol = config.symbol;
+    position.targetPrice = signal.targetPrice;
+    position.contributors = signal.contributors;
+    position.lastBar = snapshotBar(candles[candles.length - 1]);
+    position.strategy = strategy.name;
     
-    await ledger.openPosition(position);
+    const opened = await ledger.openPosition(position);
     lastSignalTime = Date.now();
     
-    const feePerSide = config.risk.positionSizeDollars * config.futures.leverage * (config.fees.takerFeePercent / 100);
+    const notional = opened.collateral * opened.leverage;
+    const feePerSide = notional * (config.fees.takerFeePercent / 100);
     const roundTripFee = (feePerSide * 2).toFixed(2);
     const sideEmoji = signal.side === "Long" ? "🟢" : "🔴";
-    const targetDollars = (config.risk.positionSizeDollars * config.futures.leverage * config.strategy.targetProfitPercent / 100).toFixed(2);
-    const stopDollars = (config.risk.positionSizeDollars * config.futures.leverage * config.strategy.initialStopPercent / 100).toFixed(2);
-    log(sideEmoji + " " + signal.side + " $" + posSize + " @ $" + currentPrice.toFixed(2) + " | Target: +$" + targetDollars + " gross | Stop: -$" + stopDollars + " | Fees: $" + roundTripFee);
+    const targetDollars = (notional * Math.abs(opened.takeProfit - opened.entryPrice) / opened.entryPrice).toFixed(2);
+    const stopDollars = (notional * Math.abs(opened.entryPrice - opened.stopLoss) / opened.entryPrice).toFixed(2);
+    log(sideEmoji + " " + signal.side + " $" + notional.toFixed(0) + " @ $" + opened.entryPrice.toFixed(2) + " | Target: +$" + targetDollars + " gross | Stop: -$" + stopDollars + " | Fees: $" + roundTripFee);
     
   } catch (err) {
     error("Error: " + (err instanceof Error ? err.message : String(err)));
+  } finally {
+    // One-shot run: snapshot what this run journaled, ledger.json is what gets committed
+    await ledger.save();
   }
 }
 
@@ -0,0 +1,310 @@
+// Performance Analytics - everything we want to know about a set of closed trades
+// One implementation for the server's daily summary, the optimizer and backtest reports.
+//
+// Returns are per trade (pnl / equity before the trade) and per UTC day (days with no
+// closed trades count as 0% between the first and last trade). Daily ratios are
+// annualized with √365 — crypto never closes.
+
+import type { Position } from "./risk/recovery-manager";
+import { symbolOf } from "./symbols";
+
+const DAY_MS = 86_400_000;
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+  drawdown: number;           // Dollars below the running peak
+}
+
+export interface Breakdown {
+  trades: number;
+  wins: number;
+  winRate: number;            // %
+  pnl: number;
+  avgPnl: number;
+}
+
+/** Trades that went into recovery, against what closing at the initial stop would have booked */
+export interface RecoveryReport {
+  entered: number;
+  recovered: number;          // Closed back at breakeven (recovery-breakeven)
+  stoppedOut: number;         // Hit the hard stop (recovery-stop)
+  timedOut: number;           // Ran out of recoveryTimeSeconds (recovery-timeout)
+  pnl: number;                // Net P&L of those trades
+  stopOutPnl: number;         // Net P&L had the initial stop closed them
+  saved: number;              // pnl − stopOutPnl: positive means recovery paid for itself
+}
+
+export interface RatioPair {
+  perTrade: number;
+  daily: number;
+}
+
+export interface PerformanceReport {
+  trades: number;             // A scaled-out trade counts once, with the P&L of all its fills
+  scaledOut: number;          // Trades closed in more than one fill
+  wins: number;
+  losses: number;
+  breakevens: number;
+  winRate: number;            // %
+  totalPnl: number;
+  totalFees: number;
+  avgWin: number;
+  avgLoss: number;            // Positive dollars
+  expectancy: number;         // Net $ per trade
+  profitFactor: number;       // Gross wins / gross losses (Infinity with no losses)
+  avgDurationSeconds: number;
+  startEquity: number;
+  endEquity: number;
+  equityCurve: EquityPoint[];
+  maxDrawdown: number;        // Dollars
+  maxDrawdownPercent: number;
+  maxDrawdownDurationMs: number; // Longest peak → recovery (or → last trade if never recovered)
+  sharpe: RatioPair;
+  sortino: RatioPair;
+  avgMaePercent: number;
+  avgMfePercent: number;
+  worstMaePercent: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  byReason: Record<string, Breakdown>;
+  bySide: Record<string, Breakdown>;
+  byHour: Record<string, Breakdown>;  // UTC hour of entry
+  byRegime: Record<string, Breakdown>;
+  byStrategy: Record<string, Breakdown>;
+  bySymbol: Record<string, Breakdown>;
+  byContributor: Record<string, Breakdown>;  // Ensemble P&L split by each voter's weight × strength
+  recovery: RecoveryReport;
+}
+
+const pnlOf = (p: Position) => p.pnl || 0;
+
+/** Positions from before strategies were recorded have none — "unknown" rather than a guess */
+export function strategyOf(position: Position): string {
+  return position.strategy || "unknown";
+}
+
+function mean(xs: number[]): number {
+  return xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+function stdDev(xs: number[]): number {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((sum, x) => sum + (x - m) ** 2, 0) / (xs.length - 1));
+}
+
+/** Mean / sample std dev (0 when undefined) */
+export function sharpeRatio(returns: number[]): number {
+  const sd = stdDev(returns);
+  return sd > 0 ? mean(returns) / sd : 0;
+}
+
+/** Mean / downside deviation — only losing periods count as risk */
+export function sortinoRatio(returns: number[]): number {
+  if (returns.length < 2) return 0;
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / returns.length);
+  return downside > 0 ? mean(returns) / downside : 0;
+}
+
+function breakdown(positions: Position[], key: (p: Position) => string): Record<string, Breakdown> {
+  const groups: Record<string, Breakdown> = {};
+  for (const p of positions) {
+    const k = key(p);
+    const g = groups[k] ??= { trades: 0, wins: 0, winRate: 0, pnl: 0, avgPnl: 0 };
+    g.trades++;
+    g.pnl += pnlOf(p);
+    if (pnlOf(p) > 0) g.wins++;
+  }
+  for (const g of Object.values(groups)) {
+    g.winRate = (g.wins / g.trades) * 100;
+    g.avgPnl = g.pnl / g.trades;
+  }
+  return groups;
+}
+
+/**
+ * Per-strategy attribution: a trade counts once for every strategy behind it, and its P&L
+ * is split by weight × strength, so the pnl column still sums to the total.
+ * Single-strategy trades go wholly to their strategy.
+ */
+function attribution(positions: Position[]): Record<string, Breakdown> {
+  const groups: Record<string, Breakdown> = {};
+  for (const p of positions) {
+    const votes = p.contributors?.length
+      ? p.contributors.map(c => ({ strategy: c.strategy, share: c.weight * c.strength }))
+      : [{ strategy: strategyOf(p), share: 1 }];
+    const total = votes.reduce((sum, v) => sum + v.share, 0);
+    for (const v of votes) {
+      const g = groups[v.strategy] ??= { trades: 0, wins: 0, winRate: 0, pnl: 0, avgPnl: 0 };
+      g.trades++;
+      g.pnl += pnlOf(p) * (total > 0 ? v.share / total : 1 / votes.length);
+      if (pnlOf(p) > 0) g.wins++;
+    }
+  }
+  for (const g of Object.values(groups)) {
+    g.winRate = (g.wins / g.trades) * 100;
+    g.avgPnl = g.pnl / g.trades;
+  }
+  return groups;
+}
+
+function longestRun(positions: Position[], test: (pnl: number) => boolean): number {
+  let longest = 0;
+  let run = 0;
+  for (const p of positions) {
+    run = test(pnlOf(p)) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
+
+/** Equity after each closed trade plus the drawdown stats derived from it */
+export function equityCurve(closed: Position[], startEquity: number) {
+  const curve: EquityPoint[] = [];
+  let equity = startEquity;
+  let peak = startEquity;
+  let peakTime = closed.length > 0 ? closed[0].entryTime : 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  let maxDrawdownDurationMs = 0;
+
+  for (const p of closed) {
+    const time = p.exitTime ?? p.entryTime;
+    equity += pnlOf(p);
+    if (equity >= peak) {
+      maxDrawdownDurationMs = Math.max(maxDrawdownDurationMs, time - peakTime);
+      peak = equity;
+      peakTime = time;
+    }
+    const drawdown = peak - equity;
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+    if (peak > 0) maxDrawdownPercent = Math.max(maxDrawdownPercent, (drawdown / peak) * 100);
+    curve.push({ time, equity, drawdown });
+  }
+
+  // Still under water at the end: the open drawdown counts too
+  const last = curve[curve.length - 1];
+  if (last && last.drawdown > 0) {
+    maxDrawdownDurationMs = Math.max(maxDrawdownDurationMs, last.time - peakTime);
+  }
+
+  return { curve, maxDrawdown, maxDrawdownPercent, maxDrawdownDurationMs };
+}
+
+/** Daily returns on start-of-day equity, including flat days between the first and last trade */
+function dailyReturns(closed: Position[], startEquity: number): number[] {
+  if (closed.length === 0) return [];
+
+  const pnlByDay = new Map<number, number>();
+  for (const p of closed) {
+    const day = Math.floor((p.exitTime ?? p.entryTime) / DAY_MS);
+    pnlByDay.set(day, (pnlByDay.get(day) || 0) + pnlOf(p));
+  }
+
+  const days = [...pnlByDay.keys()];
+  const first = Math.min(...days);
+  const last = Math.max(...days);
+  const returns: number[] = [];
+  let equity = startEquity;
+  for (let day = first; day <= last; day++) {
+    const pnl = pnlByDay.get(day) || 0;
+    returns.push(equity > 0 ? pnl / equity : 0);
+    equity += pnl;
+  }
+  return returns;
+}
+
+function recoveryReport(closed: Position[]): RecoveryReport {
+  const recovered = closed.filter(p => p.stopOutPnl !== undefined);
+  const pnl = recovered.reduce((sum, p) => sum + pnlOf(p), 0);
+  const stopOutPnl = recovered.reduce((sum, p) => sum + p.stopOutPnl!, 0);
+  const count = (reason: string) => recovered.filter(p => p.reason === reason).length;
+  return {
+    entered: recovered.length,
+    recovered: count("recovery-breakeven"),
+    stoppedOut: count("recovery-stop"),
+    timedOut: count("recovery-timeout"),
+    pnl,
+    stopOutPnl,
+    saved: pnl - stopOutPnl,
+  };
+}
+
+/**
+ * Full performance report over the closed positions in `positions` (open ones are ignored).
+ * `startEquity` is the balance before the first of them — usually LedgerState.initialBalance.
+ */
+export function analyzePositions(positions: Position[], startEquity: number): PerformanceReport {
+  const closed = positions
+    .filter(p => p.status === "closed")
+    .sort((a, b) => (a.exitTime ?? a.entryTime) - (b.exitTime ?? b.entryTime));
+
+  const wins = closed.filter(p => pnlOf(p) > 0);
+  const losses = closed.filter(p => pnlOf(p) < 0);
+  const grossWin = wins.reduce((sum, p) => sum + pnlOf(p), 0);
+  const grossLoss = Math.abs(losses.reduce((sum, p) => sum + pnlOf(p), 0));
+  const totalPnl = grossWin - grossLoss;
+
+  const { curve, maxDrawdown, maxDrawdownPercent, maxDrawdownDurationMs } = equityCurve(closed, startEquity);
+
+  // Per-trade return on the equity the trade started from
+  const tradeReturns: number[] = [];
+  let equity = startEquity;
+  for (const p of closed) {
+    tradeReturns.push(equity > 0 ? pnlOf(p) / equity : 0);
+    equity += pnlOf(p);
+  }
+  const daily = dailyReturns(closed, startEquity);
+
+  const withExcursion = closed.filter(p => p.maePercent !== undefined);
+
+  return {
+    trades: closed.length,
+    scaledOut: closed.filter(p => (p.legs?.length ?? 0) > 1).length,
+    wins: wins.length,
+    losses: losses.length,
+    breakevens: closed.length - wins.length - losses.length,
+    winRate: closed.length > 0 ? (wins.length / closed.length) * 100 : 0,
+    totalPnl,
+    totalFees: closed.reduce((sum, p) => sum + (p.fees || 0), 0),
+    avgWin: wins.length > 0 ? grossWin / wins.length : 0,
+    avgLoss: losses.length > 0 ? grossLoss / losses.length : 0,
+    expectancy: closed.length > 0 ? totalPnl / closed.length : 0,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : grossWin > 0 ? Infinity : 0,
+    avgDurationSeconds: mean(closed.filter(p => p.exitTime).map(p => (p.exitTime! - p.entryTime) / 1000)),
+    startEquity,
+    endEquity: startEquity + totalPnl,
+    equityCurve: curve,
+    maxDrawdown,
+    maxDrawdownPercent,
+    maxDrawdownDurationMs,
+    sharpe: { perTrade: sharpeRatio(tradeReturns), daily: sharpeRatio(daily) * Math.sqrt(365) },
+    sortino: { perTrade: sortinoRatio(tradeReturns), daily: sortinoRatio(daily) * Math.sqrt(365) },
+    avgMaePercent: mean(withExcursion.map(p => p.maePercent!)),
+    avgMfePercent: mean(withExcursion.map(p => p.mfePercent ?? 0)),
+    worstMaePercent: Math.max(0, ...withExcursion.map(p => p.maePercent!)),
+    longestWinStreak: longestRun(closed, pnl => pnl > 0),
+    longestLossStreak: longestRun(closed, pnl => pnl < 0),
+    byReason: breakdown(closed, p => p.reason || "unknown"),
+    bySide: breakdown(closed, p => p.side),
+    byHour: breakdown(closed, p => String(new Date(p.entryTime).getUTCHours())),
+    byRegime: breakdown(closed, p => p.regime || "unknown"),
+    byStrategy: breakdown(closed, strategyOf),
+    bySymbol: breakdown(closed, symbolOf),
+    byContributor: attribution(closed),
+    recovery: recoveryReport(closed),
+  };
+}
+
+/** One-line summary for logs */
+export function formatSummary(r: PerformanceReport): string {
+  const pf = Number.isFinite(r.profitFactor) ? r.profitFactor.toFixed(2) : "∞";
+  return `${r.trades} trades | exp $${r.expectancy.toFixed(2)} | PF ${pf} | ` +
+    `maxDD $${r.maxDrawdown.toFixed(2)} (${r.maxDrawdownPercent.toFixed(1)}%) | ` +
+    `Sharpe ${r.sharpe.daily.toFixed(2)} | Sortino ${r.sortino.daily.toFixed(2)} | ` +
+    `streaks ${r.longestWinStreak}W/${r.longestLossStreak}L` +
+    (r.recovery.entered > 0
+      ? ` | recovery ${r.recovery.recovered}/${r.recovery.entered} back, saved $${r.recovery.saved.toFixed(2)}`
+      : "");
+}
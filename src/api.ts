@@ -0,0 +1,136 @@
+// REST API - read-only JSON views of the ledger, served by the health server
+//
+//   GET /api/positions  open positions with unrealized net P&L at their symbol's latest price
+//   GET /api/trades     closed trades, newest first
+//                       ?symbol= &side=Long|Short &reason= &strategy= &from= &to= (ms or ISO, on exit time) &limit= &offset=
+//   GET /api/stats      Ledger.stats + the analytics report (without the curve)
+//   GET /api/equity     equity curve [{ time, equity, drawdown }]
+//   GET /api/overrides  ScalperOverrides currently applied + the brief's regime
+
+import type { Ledger } from "./ledger";
+import { config } from "./config";
+import { symbolOf } from "./symbols";
+import { getCurrentBrief, ScalperOverrides } from "./brief-reader";
+import { analyzePositions, strategyOf } from "./analytics";
+import { unrealizedPnl } from "./risk/recovery-manager";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export interface ApiContext {
+  ledger: Ledger;
+  /** Latest traded/mid price of a symbol (default: the first scanned), null before its first scan */
+  lastPrice: (symbol?: string) => number | null;
+  overrides: () => ScalperOverrides | null;
+}
+
+/** Returns null when the path isn't one of its routes */
+export type ApiHandler = (req: Request, url: URL) => Promise<Response | null> | Response | null;
+
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** Epoch ms or anything Date.parse understands; NaN if neither */
+function parseTime(value: string): number {
+  return /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+}
+
+function positions(ctx: ApiContext): Response {
+  const now = Date.now();
+  return json({
+    price: ctx.lastPrice(),
+    prices: Object.fromEntries(config.symbols.map(s => [s, ctx.lastPrice(s)])),
+    positions: ctx.ledger.openPositions.map(p => {
+      const price = ctx.lastPrice(symbolOf(p));
+      return {
+        ...p,
+        symbol: symbolOf(p),
+        ageSeconds: (now - p.entryTime) / 1000,
+        unrealized: price === null ? null : unrealizedPnl(p, price),
+      };
+    }),
+  });
+}
+
+function trades(ctx: ApiContext, params: URLSearchParams): Response {
+  const side = params.get("side");
+  const reason = params.get("reason");
+  const symbol = params.get("symbol");
+  const strategy = params.get("strategy");
+  const from = params.has("from") ? parseTime(params.get("from")!) : -Infinity;
+  const to = params.has("to") ? parseTime(params.get("to")!) : Infinity;
+  const limit = Math.min(parseInt(params.get("limit") || String(DEFAULT_LIMIT)), MAX_LIMIT);
+  const offset = parseInt(params.get("offset") || "0");
+
+  if (Number.isNaN(from) || Number.isNaN(to)) return json({ error: "from/to must be epoch ms or an ISO date" }, 400);
+  if (!(limit > 0) || !(offset >= 0)) return json({ error: "limit must be > 0 and offset >= 0" }, 400);
+  if (side && side !== "Long" && side !== "Short") return json({ error: "side must be Long or Short" }, 400);
+
+  const matching = ctx.ledger.closedPositions
+    .filter(p => !symbol || symbolOf(p) === symbol)
+    .filter(p => !side || p.side === side)
+    .filter(p => !reason || p.reason === reason)
+    .filter(p => !strategy || strategyOf(p) === strategy || p.contributors?.some(c => c.strategy === strategy))
+    .filter(p => {
+      const t = p.exitTime ?? p.entryTime;
+      return t >= from && t <= to;
+    })
+    .sort((a, b) => (b.exitTime ?? b.entryTime) - (a.exitTime ?? a.entryTime));
+
+  return json({
+    total: matching.length,
+    limit,
+    offset,
+    trades: matching.slice(offset, offset + limit),
+  });
+}
+
+function stats(ctx: ApiContext): Response {
+  const { equityCurve, ...report } = analyzePositions(ctx.ledger.closedPositions, ctx.ledger.state.initialBalance);
+  const state = ctx.ledger.state;
+  return json({
+    balance: state.balance,
+    availableBalance: ctx.ledger.availableBalance,
+    pausedUntil: state.pausedUntil ?? null,
+    entriesPaused: state.entriesPaused ?? false,
+    briefGate: !state.briefGateOff,
+    ledger: ctx.ledger.stats,
+    analytics: report,
+  });
+}
+
+function equity(ctx: ApiContext): Response {
+  const { startEquity, equityCurve } = analyzePositions(ctx.ledger.closedPositions, ctx.ledger.state.initialBalance);
+  return json({ startEquity, points: equityCurve });
+}
+
+function overrides(ctx: ApiContext): Response {
+  const brief = getCurrentBrief();
+  return json({
+    overrides: ctx.overrides(),
+    regime: brief?.regime ?? null,
+    regimeConfidence: brief?.regimeConfidence ?? null,
+    briefTimestamp: brief?.timestamp ?? null,
+  });
+}
+
+/** Routes /api/*; returns null for anything else so the caller can serve it */
+export function createApi(ctx: ApiContext): ApiHandler {
+  return (req, url) => {
+    if (!url.pathname.startsWith("/api/")) return null;
+    if (req.method !== "GET") return json({ error: "method not allowed" }, 405);
+
+    switch (url.pathname) {
+      case "/api/positions": return positions(ctx);
+      case "/api/trades": return trades(ctx, url.searchParams);
+      case "/api/stats": return stats(ctx);
+      case "/api/equity": return equity(ctx);
+      case "/api/overrides": return overrides(ctx);
+      default: return json({ error: `unknown endpoint ${url.pathname}` }, 404);
+    }
+  };
+}
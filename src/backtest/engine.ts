@@ -0,0 +1,172 @@
+// Backtest Engine - Replays historical 1m candles through the live logic
+// Same strategy entries (STRATEGY / options.strategy), same updatePosition exit ladder,
+// same Ledger risk gates — only the clock is simulated (candle close time, not Date.now())
+// Higher timeframes a strategy asks for are resampled from the 1m candles.
+
+import { config } from "../config";
+import { getStrategy } from "../strategy/registry";
+import type { Strategy } from "../strategy/types";
+import type { Candle } from "../types";
+import {
+  createPosition,
+  barsSinceLastCheck,
+  snapshotBar,
+  Position,
+} from "../risk/recovery-manager";
+import { Ledger, LedgerState } from "../ledger";
+import { PaperExecutor } from "../execution/executor";
+import { sizePosition, sizingHistory } from "../risk/sizing";
+import { analyzePositions, PerformanceReport } from "../analytics";
+
+const CANDLE_MS = 60_000;
+
+export interface BacktestOptions {
+  strategy?: Strategy;        // Defaults to the configured one
+  momentumThreshold?: number;
+  maxChasePercent?: number;
+  maxTradeSeconds?: number;
+  cooldownMs?: number;        // Same 30s signal cooldown as server.ts by default
+  onTrade?: (position: Position) => void;
+}
+
+export interface BacktestResult {
+  strategy: string;
+  from: number;
+  to: number;
+  candles: number;
+  state: LedgerState;
+  stats: Ledger["stats"];
+  analytics: PerformanceReport;
+  closed: Position[];
+}
+
+const INTERVAL_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+function intervalMs(interval: string): number {
+  const match = /^(\d+)([mhd])$/.exec(interval);
+  if (!match) throw new Error(`Can't resample to interval ${interval}`);
+  return parseInt(match[1]) * INTERVAL_UNITS[match[2]];
+}
+
+/** Fold a 1m candle into a higher-timeframe series (the last bucket stays open, like a live fetch) */
+function resampleInto(series: Candle[], candle: Candle, ms: number) {
+  const start = Math.floor(candle.time / ms) * ms;
+  const last = series[series.length - 1];
+  if (last && last.time === start) {
+    last.high = Math.max(last.high, candle.high);
+    last.low = Math.min(last.low, candle.low);
+    last.close = candle.close;
+    last.volume += candle.volume;
+  } else {
+    series.push({ ...candle, time: start });
+  }
+}
+
+export async function runBacktest(
+  candles: Candle[],
+  options: BacktestOptions = {}
+): Promise<BacktestResult> {
+  const strategy = options.strategy ?? getStrategy();
+  const window = Math.max(config.candleLimit, strategy.history);
+  if (candles.length <= window) {
+    throw new Error(`Need more than ${window} candles to backtest, got ${candles.length}`);
+  }
+
+  // Simulated clock — advanced to each candle's close before anything runs
+  let now = candles[0].time;
+  const ledger = new Ledger({ clock: () => now, persist: false, executor: new PaperExecutor() });
+  ledger.state.lastReset = now;
+  ledger.state.lastHourReset = now;
+
+  const cooldownMs = options.cooldownMs ?? 30_000;
+  let lastSignalTime = 0;
+
+  const higher = Object.entries(strategy.timeframes ?? {}).map(([interval, limit]) => ({
+    interval,
+    limit,
+    ms: intervalMs(interval),
+    series: [] as Candle[],
+  }));
+  for (const tf of higher) {
+    for (const candle of candles.slice(0, window - 1)) resampleInto(tf.series, candle, tf.ms);
+  }
+
+  for (let i = window - 1; i < candles.length; i++) {
+    const candle = candles[i];
+    now = candle.time + CANDLE_MS;
+    for (const tf of higher) {
+      resampleInto(tf.series, candle, tf.ms);
+      if (tf.series.length > tf.limit * 2) tf.series.splice(0, tf.series.length - tf.limit);
+    }
+
+    // Daily reset — same UTC day rollover as the scan loop
+    if (new Date(now).getUTCDate() !== new Date(ledger.state.lastReset).getUTCDate()) {
+      await ledger.resetDaily();
+    }
+
+    // Manage exits first, exactly like scan() — intrabar high/low against stop/target
+    for (const position of [...ledger.openPositions]) {
+      const bars = barsSinceLastCheck(position, [candle]);
+      position.lastBar = snapshotBar(candle);
+      // The ledger's clock is the simulated one, so the ladder's time exits run on it too
+      const update = await ledger.runExitLadder(position, bars, options.maxTradeSeconds);
+      if (update.shouldClose) {
+        const closed = await ledger.closePosition(position.id, update.exitPrice!, update.reason!);
+        if (closed) options.onTrade?.(closed);
+      }
+    }
+
+    if (!ledger.canOpenPosition().allowed) continue;
+    if (now - lastSignalTime < cooldownMs) continue;
+
+    // Same tail the live scan hands the strategy
+    const history = candles.slice(i - strategy.history + 1, i + 1);
+    const signal = strategy.evaluate({
+      candles: history,
+      timeframes: higher.length > 0
+        ? Object.fromEntries(higher.map(tf => [tf.interval, tf.series.slice(-tf.limit)]))
+        : undefined,
+      overrides: { momentumThreshold: options.momentumThreshold, maxChasePercent: options.maxChasePercent },
+    });
+    if (!signal.detected) continue;
+
+    const plan = sizePosition({
+      symbol: config.symbol,
+      side: signal.side!,
+      candles: candles.slice(Math.max(0, i - sizingHistory() + 1), i + 1),
+      price: candle.close,
+      leverage: config.futures.leverage,
+      marginBudget: config.risk.positionSizeDollars,
+      open: ledger.openPositions,
+      exits: signal.exits ?? strategy.exits,
+    });
+    if (!plan.allowed) continue;
+
+    const position = createPosition(signal.side!, candle.close, plan.collateral, now, plan.exits, plan.leverage);
+    position.symbol = config.symbol;
+    position.targetPrice = signal.targetPrice;
+    position.contributors = signal.contributors;
+    position.strategy = strategy.name;
+    position.lastBar = snapshotBar(candle);
+    await ledger.openPosition(position);
+    lastSignalTime = now;
+  }
+
+  // Anything still open at the end of the data is closed at the last close
+  const last = candles[candles.length - 1];
+  for (const position of [...ledger.openPositions]) {
+    const closed = await ledger.closePosition(position.id, last.close, "backtest-end");
+    if (closed) options.onTrade?.(closed);
+  }
+
+  return {
+    strategy: strategy.name,
+    from: candles[0].time,
+    to: last.time + CANDLE_MS,
+    candles: candles.length,
+    state: ledger.state,
+    stats: ledger.stats,
+    analytics: analyzePositions(ledger.closedPositions, ledger.state.initialBalance),
+    closed: ledger.closedPositions,
+  };
+}
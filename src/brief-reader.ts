@@ -5,6 +5,7 @@
 
 import { config } from "./config";
 import { log } from "./logger";
+import { timedFetch } from "./metrics";
 
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN || "";
 const BRIEF_URL = "https://api.github.com/repos/kallgit-codex/kallisti-scalper/contents/data/market-brief.json?ref=data";
@@ -45,6 +46,7 @@ export interface ScalperOverrides {
   quickGrabDollars?: number;
   minProfitDollars?: number;
   preferredSide?: "Long" | "Short" | null;  // null = both sides ok
+  strategy?: string;          // Registry name to use instead of config.strategyName this scan
 }
 
 let cachedBrief: MarketBrief | null = null;
@@ -54,7 +56,7 @@ async function fetchBrief(): Promise<MarketBrief | null> {
   if (!GITHUB_TOKEN) return null;
 
   try {
-    const resp = await fetch(BRIEF_URL, {
+    const resp = await timedFetch("github", BRIEF_URL, {
       headers: {
         Authorization: `token ${GITHUB_TOKEN}`,
         Accept: "application/vnd.github.v3+json",
@@ -143,8 +145,11 @@ export async function getOverrides(): Promise<ScalperOverrides> {
 
     case "ranging":
     case "low_vol_squeeze":
-      // These regimes should ideally be handled by mean reversion
-      // Scalper trades conservatively or sits out
+      // Mean reversion takes these regimes (config.meanReversion.regimes)
+      if (config.meanReversion.autoSelect && config.meanReversion.regimes.includes(brief.regime)) {
+        overrides.strategy = "mean-reversion";
+      }
+      // If it's switched off the scalper trades conservatively or sits out
       overrides.momentumThreshold = 0.10;     // Very strong signals only
       overrides.maxChasePercent = 0.15;       // Barely chase
       overrides.maxTradeSeconds = 90;         // Quick in/out
@@ -15,24 +15,156 @@
 //   - Stronger signal required (0.06% vs 0.05%)
 //   - Timeout reduced 180s → 150s
 
+import { readFileSync } from "fs";
+
 export type TradingMode = "paper" | "live";
+export type ExchangeProvider = "binance" | "bybit" | "okx";
+
+/** Per-symbol settings that replace the global ones (see src/symbols.ts) */
+export interface SymbolOverrides {
+  leverage?: number;
+  positionSizeDollars?: number;
+  momentumThreshold?: number;     // Beats the brief's regime override for this symbol
+  maxChasePercent?: number;
+}
+
+/** One Binance USDⓈ-M leverage bracket: applies from notionalFloor up to the next tier's floor */
+export interface MaintenanceTier {
+  notionalFloor: number;
+  maxLeverage: number;
+  maintenanceMarginRate: number;  // Fraction of notional, e.g. 0.004 = 0.4%
+  maintenanceAmount: number;      // Binance's "cum": keeps the margin continuous across brackets
+}
 
 const env = process.env;
 
+const OVERRIDE_FIELDS: (keyof SymbolOverrides)[] = ["leverage", "positionSizeDollars", "momentumThreshold", "maxChasePercent"];
+
+/** Parse and check one source of symbol overrides — errors name the source, since they stop startup */
+function parseSymbolOverrides(json: string, source: string): Record<string, SymbolOverrides> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    throw new Error(`${source} isn't valid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  
+  if (!isObject(parsed)) {
+    throw new Error(`${source} must be an object of symbols, e.g. {"SOLUSDT":{"leverage":20}}`);
+  }
+  for (const [symbol, fields] of Object.entries(parsed)) {
+    if (!/^[A-Z0-9]+$/.test(symbol)) {
+      throw new Error(`${source}: "${symbol}" isn't a symbol like SOLUSDT`);
+    }
+    if (!isObject(fields)) {
+      throw new Error(`${source}: ${symbol} must be an object of overrides`);
+    }
+    for (const [field, value] of Object.entries(fields)) {
+      if (!OVERRIDE_FIELDS.includes(field as keyof SymbolOverrides)) {
+        throw new Error(`${source}: ${symbol}.${field} isn't one of ${OVERRIDE_FIELDS.join(", ")}`);
+      }
+      if (typeof value !== "number" || !(value > 0) || !Number.isFinite(value)) {
+        throw new Error(`${source}: ${symbol}.${field} must be a positive number, got ${JSON.stringify(value)}`);
+      }
+    }
+  }
+  return parsed as Record<string, SymbolOverrides>;
+}
+
+function readSymbolOverridesFile(path: string): Record<string, SymbolOverrides> {
+  const source = `SYMBOL_OVERRIDES_FILE (${path})`;
+  let json: string;
+  try {
+    json = readFileSync(path, "utf8");
+  } catch (err) {
+    throw new Error(`${source} can't be read: ${err instanceof Error ? err.message : err}`);
+  }
+  return parseSymbolOverrides(json, source);
+}
+
+/** ENSEMBLE=name:weight,... (weight defaults to 1) — a weight that isn't a positive number stops startup */
+function parseEnsembleWeights(spec: string): Record<string, number> {
+  return Object.fromEntries(spec.split(",").filter(Boolean).map(pair => {
+    const [name, weight] = pair.split(":");
+    const value = weight === undefined ? 1 : Number(weight);
+    if (!name.trim() || !(value > 0) || !Number.isFinite(value)) {
+      throw new Error(`ENSEMBLE: "${pair}" must be name:weight with a positive number weight`);
+    }
+    return [name.trim(), value];
+  }));
+}
+
 export const config = {
   tradingMode: (env.TRADING_MODE as TradingMode) || "paper",
-  symbol: env.TARGET_SYMBOL || "BTCUSDT",
+  symbol: env.TARGET_SYMBOL || "BTCUSDT",     // Primary symbol (agent.ts, backtests, dashboard price)
+  // Scanned every cycle by the server: SYMBOLS=BTCUSDT,ETHUSDT,SOLUSDT (default: TARGET_SYMBOL only)
+  symbols: (env.SYMBOLS || env.TARGET_SYMBOL || "BTCUSDT").split(",").map(s => s.trim()).filter(Boolean),
+  // None by default. SYMBOL_OVERRIDES_FILE=./symbols.json, then SYMBOL_OVERRIDES='{"SOLUSDT":{"leverage":20}}' over it
+  // Checked at import: a typo'd symbol or field stops startup instead of being ignored
+  symbolOverrides: {
+    ...(env.SYMBOL_OVERRIDES_FILE ? readSymbolOverridesFile(env.SYMBOL_OVERRIDES_FILE) : {}),
+    ...parseSymbolOverrides(env.SYMBOL_OVERRIDES || "{}", "SYMBOL_OVERRIDES"),
+  } as Record<string, SymbolOverrides>,
   candleInterval: "1m",
   candleLimit: 30,
+  // Signal generator from src/strategy/registry.ts: momentum | three-candle | dip-reversal | noise-momentum | kallisti | mean-reversion | ensemble
+  strategyName: env.STRATEGY || "momentum",
   
   dataSource: {
-    provider: "binance",
+    provider: (env.DATA_PROVIDER as ExchangeProvider) || "binance",
+    // Tried in order when the primary's market data API errors
+    fallbackProviders: (env.DATA_FALLBACKS || "").split(",").filter(Boolean) as ExchangeProvider[],
     baseUrl: env.DATA_BASE_URL || "https://data-api.binance.vision",
+    // WebSocket klines + bookTicker; STREAMING=false falls back to 30s REST polling
+    streaming: env.STREAMING !== "false",
+    streamUrl: env.DATA_STREAM_URL || "wss://data-stream.binance.vision",
   },
   
   futures: {
     leverage: 75,
-    maxPositions: 1,
+    maxPositions: 1,               // Across all symbols — raise it to hold several SYMBOLS at once
+    maxPositionsPerSymbol: 1,
+  },
+  
+  // Live order execution (TRADING_MODE=live) — venue + Binance USDⓈ-M futures keys
+  execution: {
+    venue: (env.EXECUTION_VENUE as ExchangeProvider) || "binance",
+    baseUrl: env.FUTURES_BASE_URL || "https://fapi.binance.com",
+    apiKey: env.BINANCE_API_KEY || "",
+    apiSecret: env.BINANCE_API_SECRET || "",
+    recvWindow: 5000,
+  },
+  
+  // Alternate venues (market data via DATA_PROVIDER, orders via EXECUTION_VENUE)
+  exchanges: {
+    bybit: {
+      baseUrl: env.BYBIT_BASE_URL || "https://api.bybit.com",
+      apiKey: env.BYBIT_API_KEY || "",
+      apiSecret: env.BYBIT_API_SECRET || "",
+    },
+    okx: {
+      baseUrl: env.OKX_BASE_URL || "https://www.okx.com",
+      apiKey: env.OKX_API_KEY || "",
+      apiSecret: env.OKX_API_SECRET || "",
+      passphrase: env.OKX_PASSPHRASE || "",
+    },
+  },
+  
+  // Paper fill model (TRADING_MODE=paper) — PAPER_FILLS=off books at the signal price
+  paperFills: {
+    enabled: env.PAPER_FILLS !== "off",
+    halfSpreadBps: 0.5,            // Fixed model: mid → touch
+    slippageBps: 1,                // Fixed model: base slippage per fill
+    impactBpsPer100k: 1,           // Fixed model: extra slippage per $100k notional ($37.5k ≈ 0.4bps)
+    latencyMs: 250,                // Signal → order at the venue (live market data only)
+    depthLimit: 50,                // Order book levels to walk; 0 = always use the fixed model
+  },
+  
+  // Control API (src/control.ts) — disabled unless CONTROL_TOKEN is set
+  control: {
+    token: env.CONTROL_TOKEN || "",
   },
   
   fees: {
@@ -49,11 +181,13 @@ export const config = {
     
     targetProfitPercent: 0.25,     // 0.25% = $93.75 gross → $63.75 net
     initialStopPercent: 0.15,      // 0.15% = $56.25 gross → $86.25 net loss
-    recoveryStopPercent: 0.04,
+    // v3.6: Recovery mode (RECOVERY_MODE=on) — the initial stop starts recovery instead of closing
+    recoveryMode: env.RECOVERY_MODE === "on",
+    recoveryStopPercent: 0.04,     // Hard stop this far past the initial stop (0.15% → 0.19%)
     
     maxTradeSeconds: 150,          // v3.1: was 180 → 150. Tighter leash.
     quickExitSeconds: 30,          // v3.1: was 45 → 30. Grab small wins faster.
-    recoveryTimeSeconds: 90,
+    recoveryTimeSeconds: 90,       // Time in recovery to get back to breakeven
     underwaterCutSeconds: 120,     // v3.1: NEW. If red after 120s, exit immediately.
     underwaterMinLoss: -10,        // v3.1: NEW. Only cut if net < -$10 (avoid cutting near-breakeven)
     
@@ -66,19 +200,141 @@ export const config = {
     volumeLookback: 10,
     
     minVolatilityPercent: 0.03,
+    momentumCandles: 3,            // noise-momentum: closes the move is measured over
+  },
+  
+  // Kallisti trend + pullback strategy (STRATEGY=kallisti): 15m EMA trend, 1m entries
+  kallisti: {
+    trendInterval: "15m",
+    trendCandles: 50,              // Higher-timeframe candles fetched each scan
+    trendEmaFast: 9,
+    trendEmaSlow: 21,
+    trendThresholdPercent: 0.15,   // EMA gap that counts as a trend (else neutral → no trades)
+    rsiPeriod: 14,
+    rsiOversold: 30,               // Long pullback when RSI < oversold + 5
+    rsiOverbought: 70,             // Short bounce when RSI > overbought - 5
+    bbPeriod: 20,
+    bbStdDev: 2,
+    volumeLookback: 20,
+    volumeMultiplier: 0.8,         // Last candle volume vs the lookback average
+  },
+  
+  // Mean reversion (STRATEGY=mean-reversion, or picked by the brief in the regimes below)
+  // Fades closes outside both the Bollinger band and VWAP once volume dries up, exits at the mean
+  meanReversion: {
+    autoSelect: env.MEAN_REVERSION_AUTO !== "off",
+    regimes: ["ranging", "low_vol_squeeze"],
+    bbPeriod: 20,
+    bbStdDev: 2,
+    vwapCandles: 60,               // VWAP over this many candles (not the whole session)
+    vwapBandPercent: 0.10,         // Close must also be this far past VWAP
+    volumeLookback: 20,
+    maxVolumeZ: 0.5,               // Exhaustion: last volume ≤ this many σ above average, and below the previous candle's
+    meanSource: "bb" as "bb" | "vwap",  // Exit level: Bollinger middle or VWAP
+    minEdgePercent: 0.12,          // Distance to the mean must clear round-trip fees (0.08%)
+    // Own exit ladder (see updatePosition): stop, the mean, underwater cut, timeout
+    initialStopPercent: 0.20,
+    underwaterCutSeconds: 300,
+    maxTradeSeconds: 600,
+  },
+  
+  // Ensemble (STRATEGY=ensemble): every member runs each scan and votes weight × strength
+  ensemble: {
+    // ENSEMBLE=name:weight,... (weight defaults to 1)
+    weights: parseEnsembleWeights(env.ENSEMBLE || "momentum:1,three-candle:1,kallisti:1"),
+    minAgreement: 0.3,             // Winning side's weighted strength ÷ total weight (two 0.5s of three agree)
+    vetoOnConflict: true,          // Any member on the other side blocks the trade
   },
   
   risk: {
     initialBalance: 2000,
     positionSizeDollars: 500,
-    riskPerTrade: 500,
+    riskPerTrade: 500,             // SIZING=atr: net loss at the stop — e.g. 90 ≈ the fixed 0.15% stop on $37.5k + fees
     maxDailyLossPercent: 10,
     maxDailyLossDollars: 200,
     maxConsecutiveLosses: 3,
     pauseAfterLossesMinutes: 30,
     maxTradesPerHour: 4,
-    maxOpenRiskDollars: 500,
+    maxOpenRiskDollars: 500,       // ATR sizing: loss at stop summed over open positions
+    maxTotalMarginDollars: 1500,   // Collateral in open positions across all symbols
+  },
+  
+  // Position sizing (src/risk/sizing.ts) — fixed (the default): positionSizeDollars at full leverage;
+  // SIZING=atr opts in to ATR stops/targets and riskPerTrade sizing
+  sizing: {
+    mode: (env.SIZING as "atr" | "fixed") || "fixed",
+    atrPeriod: 14,
+    stopAtrMultiple: 1.5,
+    targetAtrMultiple: 2.5,
+    minStopPercent: 0.08,          // Clamp: a dead tape shouldn't put the stop inside the noise
+    maxStopPercent: 0.60,
   },
   
-  ledgerPath: "./data/ledger.json",
+  // Liquidation model (src/risk/liquidation.ts) — isolated margin, Binance USDⓈ-M brackets
+  liquidation: {
+    minBufferPercent: 0.25,        // Stop (recovery's hard stop with RECOVERY_MODE=on) must sit this far inside liquidation
+    feePercent: 0.50,              // Clearance fee, % of notional, lost on top of the whole margin
+    // Leverage brackets by position notional (GET /fapi/v1/leverageBracket); "default" for unlisted symbols
+    tiers: {
+      BTCUSDT: [
+        { notionalFloor: 0, maxLeverage: 125, maintenanceMarginRate: 0.004, maintenanceAmount: 0 },
+        { notionalFloor: 50_000, maxLeverage: 100, maintenanceMarginRate: 0.005, maintenanceAmount: 50 },
+        { notionalFloor: 500_000, maxLeverage: 50, maintenanceMarginRate: 0.01, maintenanceAmount: 2_550 },
+        { notionalFloor: 8_000_000, maxLeverage: 20, maintenanceMarginRate: 0.025, maintenanceAmount: 122_550 },
+        { notionalFloor: 50_000_000, maxLeverage: 10, maintenanceMarginRate: 0.05, maintenanceAmount: 1_372_550 },
+      ],
+      ETHUSDT: [
+        { notionalFloor: 0, maxLeverage: 125, maintenanceMarginRate: 0.004, maintenanceAmount: 0 },
+        { notionalFloor: 50_000, maxLeverage: 100, maintenanceMarginRate: 0.005, maintenanceAmount: 50 },
+        { notionalFloor: 500_000, maxLeverage: 50, maintenanceMarginRate: 0.01, maintenanceAmount: 2_550 },
+        { notionalFloor: 8_000_000, maxLeverage: 20, maintenanceMarginRate: 0.025, maintenanceAmount: 122_550 },
+      ],
+      default: [
+        { notionalFloor: 0, maxLeverage: 50, maintenanceMarginRate: 0.01, maintenanceAmount: 0 },
+        { notionalFloor: 50_000, maxLeverage: 20, maintenanceMarginRate: 0.025, maintenanceAmount: 750 },
+        { notionalFloor: 250_000, maxLeverage: 10, maintenanceMarginRate: 0.05, maintenanceAmount: 7_000 },
+        { notionalFloor: 1_000_000, maxLeverage: 5, maintenanceMarginRate: 0.10, maintenanceAmount: 57_000 },
+      ],
+    } as Record<string, MaintenanceTier[]>,
+  },
+  
+  // Stop ratchet (see updatePosition) — off by default, the stop stays where it was placed.
+  // STOP_MANAGEMENT=on opts in
+  stopManagement: {
+    enabled: env.STOP_MANAGEMENT === "on",
+    breakevenAfterDollars: 20,     // Best net seen before the stop moves to breakeven
+    breakevenLockDollars: 0,       // Net the breakeven stop locks in (0 = fees covered, nothing more)
+    trailMode: (env.TRAIL_MODE as "percent" | "atr" | "off") || "percent",
+    trailAfterDollars: 40,         // Best net seen before the stop starts trailing
+    trailPercent: 0.10,            // Distance behind the best price (also the ATR fallback under SIZING=fixed)
+    trailAtrMultiple: 1.0,         // trailMode "atr": distance = ATR at entry × this
+    minStepPercent: 0.02,          // Smaller moves are skipped, so streaming ticks don't flood the journal
+  },
+  
+  // Scale-out (see updatePosition): partial exits on the way up, the rest runs to maxProfitDollars
+  // or the trailing stop. SCALE_OUT=atTarget:fraction,… — atTarget is a multiple of the position's
+  // take-profit (minProfitDollars, or the ATR target), fraction is of the initial size.
+  // Unset or off (the default) = all-or-nothing
+  scaleOut: {
+    legs: (env.SCALE_OUT === "off" ? "" : env.SCALE_OUT || "").split(",").filter(Boolean).map(pair => {
+      const [atTarget, fraction] = pair.split(":").map(parseFloat);
+      return { atTarget, fraction };
+    }),
+  },
+  
+  ledgerPath: "./data/ledger.json",        // Snapshot of the replayed journal
+  ledgerBackups: 5,                        // ledger.json.1 … .5, rotated on every snapshot
+  // Corrupt ledger.json: "restore" the newest valid backup (+ journal replay) or "refuse" to start
+  onCorruptLedger: (env.ON_CORRUPT_LEDGER as "restore" | "refuse") || "restore",
+  journal: {
+    path: "./data/journal.jsonl",          // Append-only event log, archived on each snapshot
+    snapshotEvery: 50,                     // Events between snapshots
+  },
+  // One JSON record per scan (DECISION_LOG=off disables); replay with scripts/replay-decisions.ts
+  decisionLog: {
+    enabled: env.DECISION_LOG !== "off",
+    path: "./data/decisions.jsonl",
+    maxBytes: 20_000_000,                  // Rotated to decisions.jsonl.1 … past this size
+    keep: 5,                               // Rotated files kept
+  },
 };
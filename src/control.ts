@@ -0,0 +1,149 @@
+// Control API - operator levers on the running bot, served by the health server
+// Every route is POST and needs `Authorization: Bearer $CONTROL_TOKEN`; without a
+// token configured the whole API is disabled. Each action is logged and journaled.
+//
+//   POST /control/pause              stop new entries (exits keep running)
+//   POST /control/resume             allow new entries again
+//   POST /control/flatten            close every open position at market
+//   POST /control/close/:id          close one position at market
+//   POST /control/clear-pause        lift a consecutive-loss pause now
+//   POST /control/brief-gate         { "enabled": false } trades even when the brief says sit out
+//
+// Optional JSON body on every route: { "reason": "..." } (kept in the journal)
+
+import { timingSafeEqual } from "crypto";
+import { config } from "./config";
+import { log, error } from "./logger";
+import { json, ApiHandler } from "./api";
+import type { Ledger } from "./ledger";
+import type { Position } from "./risk/recovery-manager";
+import { symbolOf } from "./symbols";
+
+export const MANUAL_CLOSE_REASON = "manual-close";
+
+export interface ControlContext {
+  ledger: Ledger;
+  /** Run with the scan loop's lock so a manual close can't race an automatic one */
+  exclusive: <T>(fn: () => Promise<T>) => Promise<T>;
+  /** Price a market exit would get right now (bid for longs, ask for shorts) */
+  exitPrice: (position: Position) => Promise<number>;
+  /** After any change — e.g. push the ledger to GitHub */
+  onChange?: () => Promise<unknown>;
+}
+
+function authorized(req: Request, token: string): boolean {
+  const header = req.headers.get("authorization") || "";
+  const given = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readBody(req: Request): Promise<Record<string, unknown>> {
+  const text = await req.text();
+  if (!text.trim()) return {};
+  const body = JSON.parse(text);
+  if (!body || typeof body !== "object" || Array.isArray(body)) throw new Error("body must be a JSON object");
+  return body;
+}
+
+/** Undefined if the position had already left the ledger by the time the close ran */
+async function closeAtMarket(ctx: ControlContext, position: Position, reason: string): Promise<Position | undefined> {
+  const price = await ctx.exitPrice(position);
+  const closed = await ctx.ledger.closePosition(position.id, price, MANUAL_CLOSE_REASON);
+  if (!closed) {
+    error(`🎛️  CONTROL close ${position.id}: no longer in the ledger`);
+    return undefined;
+  }
+  log(`🎛️  CONTROL close ${position.id} ${symbolOf(position)} ${position.side} @ $${(closed.exitPrice ?? price).toFixed(2)} NET $${(closed.pnl || 0).toFixed(2)} (${reason})`);
+  return closed;
+}
+
+async function handle(ctx: ControlContext, action: string, body: Record<string, unknown>): Promise<Response> {
+  const { ledger } = ctx;
+  const reason = typeof body.reason === "string" && body.reason ? body.reason : "manual";
+
+  switch (action) {
+    case "pause":
+      await ledger.pauseEntries(reason);
+      log(`🎛️  CONTROL entries paused (${reason})`);
+      return json({ ok: true, entriesPaused: true });
+
+    case "resume":
+      await ledger.resumeEntries(reason);
+      log(`🎛️  CONTROL entries resumed (${reason})`);
+      return json({ ok: true, entriesPaused: false });
+
+    case "clear-pause":
+      await ledger.clearPause(reason);
+      log(`🎛️  CONTROL loss pause cleared (${reason})`);
+      return json({ ok: true, pausedUntil: null });
+
+    case "brief-gate": {
+      if (typeof body.enabled !== "boolean") return json({ error: "body needs { \"enabled\": true|false }" }, 400);
+      await ledger.setBriefGate(body.enabled, reason);
+      log(`🎛️  CONTROL brief gate ${body.enabled ? "ON" : "OFF"} (${reason})`);
+      return json({ ok: true, briefGate: body.enabled });
+    }
+
+    case "flatten": {
+      // One failed close doesn't keep the others open — they're tried too, and reported
+      const closed: Position[] = [];
+      const failed: { id: string; error: string }[] = [];
+      for (const position of [...ledger.openPositions]) {
+        try {
+          const result = await closeAtMarket(ctx, position, reason);
+          if (result) closed.push(result);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          error(`🎛️  CONTROL flatten: close ${position.id} failed: ${message}`);
+          failed.push({ id: position.id, error: message });
+        }
+      }
+      log(`🎛️  CONTROL flatten: closed ${closed.length} position(s)${failed.length ? `, ${failed.length} failed` : ""} (${reason})`);
+      if (failed.length === 0) return json({ ok: true, closed });
+      
+      // Not ok, so the caller won't sync — the closes that went through still need it
+      if (closed.length > 0) await ctx.onChange?.();
+      return json({ error: `${failed.length} position(s) failed to close`, closed, failed }, 500);
+    }
+  }
+
+  if (action.startsWith("close/")) {
+    const id = decodeURIComponent(action.slice("close/".length));
+    const position = ledger.openPositions.find(p => p.id === id);
+    if (!position) return json({ error: `no open position ${id}` }, 404);
+    const closed = await closeAtMarket(ctx, position, reason);
+    if (!closed) return json({ error: `position ${id} is no longer open` }, 409);
+    return json({ ok: true, closed });
+  }
+
+  return json({ error: `unknown control action ${action}` }, 404);
+}
+
+/** Routes /control/*; returns null for anything else so the caller can serve it */
+export function createControl(ctx: ControlContext, token: string = config.control.token): ApiHandler {
+  return async (req, url) => {
+    if (!url.pathname.startsWith("/control/")) return null;
+    if (!token) return json({ error: "control API disabled (set CONTROL_TOKEN)" }, 503);
+    if (!authorized(req, token)) return json({ error: "unauthorized" }, 401);
+    if (req.method !== "POST") return json({ error: "method not allowed" }, 405);
+
+    let body: Record<string, unknown>;
+    try {
+      body = await readBody(req);
+    } catch (err) {
+      return json({ error: `invalid JSON body: ${err instanceof Error ? err.message : String(err)}` }, 400);
+    }
+
+    const action = url.pathname.slice("/control/".length);
+    try {
+      const response = await ctx.exclusive(() => handle(ctx, action, body));
+      if (response.ok) await ctx.onChange?.();
+      return response;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      error(`🎛️  CONTROL ${action} failed: ${message}`);
+      return json({ error: message }, 500);
+    }
+  };
+}
@@ -0,0 +1,295 @@
+// Dashboard - self-contained HTML page served by the health server, no CDN
+//
+//   GET /dashboard         the page (inline CSS + JS, SVG equity chart)
+//   GET /dashboard/events  Server-Sent Events: a full snapshot every PUSH_MS
+
+import { config } from "./config";
+import { getCurrentBrief } from "./brief-reader";
+import { analyzePositions } from "./analytics";
+import { unrealizedPnl } from "./risk/recovery-manager";
+import { symbolOf } from "./symbols";
+import type { ApiContext, ApiHandler } from "./api";
+
+const PUSH_MS = 2_000;
+const RECENT_TRADES = 20;
+const MAX_CHART_POINTS = 500;
+
+export interface ScanStatus {
+  time: number;
+  scan: number;
+  reason: string;
+}
+
+export interface DashboardContext extends ApiContext {
+  lastScan: () => ScanStatus | null;
+}
+
+/** Everything the page renders, in one JSON object */
+export function dashboardSnapshot(ctx: DashboardContext) {
+  const { ledger } = ctx;
+  const state = ledger.state;
+  const brief = getCurrentBrief();
+  const closed = ledger.closedPositions;
+  const curve = analyzePositions(closed, state.initialBalance).equityCurve;
+  const now = Date.now();
+
+  return {
+    time: now,
+    mode: config.tradingMode,
+    symbol: config.symbols.join(" · "),
+    prices: Object.fromEntries(config.symbols.map(s => [s, ctx.lastPrice(s)])),
+    balance: state.balance,
+    availableBalance: ledger.availableBalance,
+    stats: ledger.stats,
+    entriesPaused: state.entriesPaused ?? false,
+    pausedUntil: state.pausedUntil && state.pausedUntil > now ? state.pausedUntil : null,
+    briefGate: !state.briefGateOff,
+    equity: [{ time: closed[0]?.entryTime ?? now, equity: state.initialBalance }, ...curve]
+      .slice(-MAX_CHART_POINTS)
+      .map(p => [p.time, p.equity]),
+    positions: ledger.openPositions.map(p => {
+      const price = ctx.lastPrice(symbolOf(p));
+      return {
+        id: p.id,
+        symbol: symbolOf(p),
+        side: p.side,
+        entryPrice: p.entryPrice,
+        stopLoss: p.stopLoss,
+        // Where it actually exits: a targetPrice (mean reversion) replaces the % take-profit
+        target: p.targetPrice ?? p.takeProfit,
+        status: p.status,
+        entryTime: p.entryTime,
+        collateral: p.collateral,
+        leverage: p.leverage,
+        // Partial exits already booked count toward the trade
+        netPnl: price === null ? null : unrealizedPnl(p, price).netPnl + (p.realizedPnl ?? 0),
+      };
+    }),
+    trades: closed.slice(-RECENT_TRADES).reverse().map(p => ({
+      symbol: symbolOf(p),
+      side: p.side,
+      entryPrice: p.entryPrice,
+      exitPrice: p.exitPrice,
+      entryTime: p.entryTime,
+      exitTime: p.exitTime,
+      pnl: p.pnl,
+      reason: p.reason,
+    })),
+    regime: brief ? { name: brief.regime, confidence: brief.regimeConfidence, reason: brief.regimeReason } : null,
+    overrides: ctx.overrides(),
+    lastScan: ctx.lastScan(),
+  };
+}
+
+function events(ctx: DashboardContext, req: Request): Response {
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const push = () => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(dashboardSnapshot(ctx))}\n\n`));
+        } catch {
+          clearInterval(timer);
+        }
+      };
+      push();
+      timer = setInterval(push, PUSH_MS);
+      req.signal.addEventListener("abort", () => {
+        clearInterval(timer);
+        try { controller.close(); } catch {}
+      });
+    },
+    cancel() {
+      clearInterval(timer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/** Routes /dashboard and /dashboard/events; null for anything else */
+export function createDashboard(ctx: DashboardContext): ApiHandler {
+  return (req, url) => {
+    if (url.pathname === "/dashboard") {
+      return new Response(PAGE, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+    }
+    if (url.pathname === "/dashboard/events") return events(ctx, req);
+    return null;
+  };
+}
+
+const PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Kallisti Scalper</title>
+<style>
+  body { margin: 0; font: 14px/1.4 ui-monospace, Menlo, Consolas, monospace; background: #0d1117; color: #c9d1d9; }
+  header { padding: 12px 20px; border-bottom: 1px solid #30363d; display: flex; gap: 24px; align-items: baseline; flex-wrap: wrap; }
+  header h1 { font-size: 16px; margin: 0; }
+  main { display: grid; grid-template-columns: repeat(auto-fit, minmax(340px, 1fr)); gap: 16px; padding: 16px 20px; }
+  section { background: #161b22; border: 1px solid #30363d; border-radius: 6px; padding: 12px 16px; }
+  section.wide { grid-column: 1 / -1; }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: .08em; color: #8b949e; margin: 0 0 8px; }
+  .big { font-size: 24px; }
+  .pos { color: #3fb950; } .neg { color: #f85149; } .dim { color: #8b949e; } .warn { color: #d29922; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { text-align: right; padding: 3px 6px; border-bottom: 1px solid #21262d; white-space: nowrap; }
+  td:first-child, th:first-child, td.l, th.l { text-align: left; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; margin: 0; }
+  dt { color: #8b949e; }
+  svg { width: 100%; height: 180px; display: block; }
+</style>
+</head>
+<body>
+<header>
+  <h1>⚡ Kallisti Scalper <span id="symbol" class="dim"></span></h1>
+  <span id="mode" class="dim"></span>
+  <span>Price <b id="price">–</b></span>
+  <span id="status" class="dim">connecting…</span>
+</header>
+<main>
+  <section>
+    <h2>Balance</h2>
+    <div class="big" id="balance">–</div>
+    <dl>
+      <dt>Available</dt><dd id="available">–</dd>
+      <dt>Today</dt><dd id="daily">–</dd>
+      <dt>Trades</dt><dd id="trades">–</dd>
+      <dt>Entries</dt><dd id="entries">–</dd>
+    </dl>
+  </section>
+  <section>
+    <h2>Regime &amp; overrides</h2>
+    <dl>
+      <dt>Regime</dt><dd id="regime">–</dd>
+      <dt>Brief gate</dt><dd id="gate">–</dd>
+      <dt>Overrides</dt><dd id="overrides">–</dd>
+      <dt>Last scan</dt><dd id="scan">–</dd>
+    </dl>
+  </section>
+  <section class="wide">
+    <h2>Equity</h2>
+    <svg id="chart" viewBox="0 0 1000 180" preserveAspectRatio="none"></svg>
+  </section>
+  <section class="wide">
+    <h2>Open positions</h2>
+    <table><thead><tr><th class="l">Symbol</th><th class="l">Side</th><th>Entry</th><th>Stop</th><th>Target</th><th>Age</th><th>Net P&amp;L</th></tr></thead>
+    <tbody id="positions"></tbody></table>
+  </section>
+  <section class="wide">
+    <h2>Recent trades</h2>
+    <table><thead><tr><th class="l">Closed</th><th class="l">Symbol</th><th class="l">Side</th><th>Entry</th><th>Exit</th><th>Held</th><th>Net P&amp;L</th><th class="l">Reason</th></tr></thead>
+    <tbody id="trades-body"></tbody></table>
+  </section>
+</main>
+<script>
+const $ = id => document.getElementById(id);
+const usd = n => n == null ? "–" : (n < 0 ? "-$" : "$") + Math.abs(n).toFixed(2);
+const signed = n => n == null ? "–" : (n >= 0 ? "+" : "") + usd(n);
+const cls = n => n == null ? "" : n >= 0 ? "pos" : "neg";
+const time = t => t ? new Date(t).toLocaleTimeString() : "–";
+const secs = s => s < 120 ? s.toFixed(0) + "s" : (s / 60).toFixed(1) + "m";
+
+function set(id, text, className) {
+  const el = $(id);
+  el.textContent = text;
+  if (className !== undefined) el.className = className;
+}
+
+function row(cells) {
+  const tr = document.createElement("tr");
+  for (const [text, className] of cells) {
+    const td = document.createElement("td");
+    td.textContent = text;
+    if (className) td.className = className;
+    tr.appendChild(td);
+  }
+  return tr;
+}
+
+function chart(points) {
+  const svg = $("chart");
+  svg.replaceChildren();
+  if (points.length < 2) return;
+  const xs = points.map(p => p[0]), ys = points.map(p => p[1]);
+  const x0 = Math.min(...xs), x1 = Math.max(...xs) || x0 + 1;
+  const y0 = Math.min(...ys), y1 = Math.max(...ys);
+  const pad = (y1 - y0) * 0.1 || 1;
+  const sx = x => ((x - x0) / ((x1 - x0) || 1)) * 1000;
+  const sy = y => 180 - ((y - (y0 - pad)) / ((y1 - y0) + 2 * pad)) * 180;
+  const ns = "http://www.w3.org/2000/svg";
+  const base = document.createElementNS(ns, "line");
+  base.setAttribute("x1", 0); base.setAttribute("x2", 1000);
+  base.setAttribute("y1", sy(points[0][1])); base.setAttribute("y2", sy(points[0][1]));
+  base.setAttribute("stroke", "#30363d"); base.setAttribute("stroke-dasharray", "4 4");
+  const line = document.createElementNS(ns, "polyline");
+  line.setAttribute("points", points.map(p => sx(p[0]) + "," + sy(p[1])).join(" "));
+  line.setAttribute("fill", "none");
+  line.setAttribute("stroke", ys[ys.length - 1] >= ys[0] ? "#3fb950" : "#f85149");
+  line.setAttribute("stroke-width", "2");
+  line.setAttribute("vector-effect", "non-scaling-stroke");
+  svg.append(base, line);
+}
+
+function render(s) {
+  set("symbol", s.symbol);
+  set("mode", s.mode.toUpperCase());
+  set("price", Object.entries(s.prices)
+    .map(([symbol, price]) => (Object.keys(s.prices).length > 1 ? symbol + " " : "") + (price == null ? "–" : "$" + price.toFixed(2)))
+    .join(" · "));
+  set("status", "updated " + time(s.time), "dim");
+  set("balance", usd(s.balance));
+  set("available", usd(s.availableBalance));
+  set("daily", signed(parseFloat(s.stats.dailyPnl)) + " (" + s.stats.dailyPnlPercent + "%)", cls(parseFloat(s.stats.dailyPnl)));
+  set("trades", s.stats.totalTrades + " (" + s.stats.wins + "W/" + s.stats.losses + "L, " + s.stats.winRate + "%)");
+  set("entries",
+    s.entriesPaused ? "paused by operator" : s.pausedUntil ? "loss pause until " + time(s.pausedUntil) : "open",
+    s.entriesPaused || s.pausedUntil ? "warn" : "pos");
+  set("regime", s.regime ? s.regime.name + " (" + (s.regime.confidence * 100).toFixed(0) + "%) — " + s.regime.reason : "no brief");
+  set("gate", s.briefGate ? "on" : "OFF (ignoring brief)", s.briefGate ? "" : "warn");
+  const o = s.overrides;
+  set("overrides", o ? (o.tradingEnabled ? "" : "⛔ ") + o.reason + Object.entries(o)
+    .filter(([k, v]) => k !== "reason" && k !== "tradingEnabled" && v != null)
+    .map(([k, v]) => " · " + k + "=" + v).join("") : "–");
+  set("scan", s.lastScan ? "#" + s.lastScan.scan + " " + time(s.lastScan.time) + " — " + s.lastScan.reason : "–");
+  chart(s.equity);
+
+  $("positions").replaceChildren(...(s.positions.length ? s.positions.map(p => row([
+    [p.symbol, "l"],
+    [p.side, p.side === "Long" ? "pos" : "neg"],
+    ["$" + p.entryPrice.toFixed(2)],
+    ["$" + p.stopLoss.toFixed(2), p.status === "recovery" ? "warn" : ""],
+    ["$" + p.target.toFixed(2)],
+    [secs((s.time - p.entryTime) / 1000)],
+    [signed(p.netPnl), cls(p.netPnl)],
+  ])) : [row([["flat", "dim"]])]));
+
+  $("trades-body").replaceChildren(...s.trades.map(t => row([
+    [time(t.exitTime)],
+    [t.symbol, "l"],
+    [t.side, "l"],
+    ["$" + t.entryPrice.toFixed(2)],
+    [t.exitPrice == null ? "–" : "$" + t.exitPrice.toFixed(2)],
+    [t.exitTime ? secs((t.exitTime - t.entryTime) / 1000) : "–"],
+    [signed(t.pnl), cls(t.pnl)],
+    [t.reason || "", "l"],
+  ])));
+}
+
+const source = new EventSource("/dashboard/events");
+source.onmessage = e => render(JSON.parse(e.data));
+source.onerror = () => set("status", "disconnected — retrying", "neg");
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,171 @@
+// Decision Log - one JSON line per scan: what the bot saw, what it decided, what it did
+// The record keeps exactly the candles and strategy settings the strategy read, so
+// scripts/replay-decisions.ts can re-run the decision and check it bit-for-bit.
+// The file rotates by size: decisions.jsonl → .1 → … → .keep (oldest dropped).
+
+import { createHash } from "crypto";
+import { appendFile, mkdir, rename, stat, unlink } from "fs/promises";
+import { dirname } from "path";
+import { config } from "./config";
+import { error } from "./logger";
+import { backupPaths } from "./storage";
+import { getStrategy } from "./strategy/registry";
+import type { StrategySignal } from "./strategy/types";
+import type { ScalperOverrides } from "./brief-reader";
+import type { Candle } from "./types";
+import type { SizingPlan } from "./risk/sizing";
+
+/** Where the scan stopped — "failed" means it threw before deciding, "sized-out" that sizing refused an entry */
+export type ScanAction =
+  | "failed"
+  | "brief-gate"
+  | "risk-limit"
+  | "cooldown"
+  | "no-signal"
+  | "side-filter"
+  | "sized-out"
+  | "enter";
+
+export interface ScanRecord {
+  scan: number;
+  time: number;
+  symbol?: string;                  // Missing on old records = config.symbol
+  action: ScanAction;
+  reason: string;
+  price?: number;
+  candlesHash?: string;             // sha256 of the whole candle buffer
+  candles?: Candle[];               // Tail the strategy reads (see candleTail)
+  timeframes?: Record<string, Candle[]>;  // Extra intervals the strategy asked for
+  overrides?: ScalperOverrides;
+  briefGateOff?: boolean;
+  canOpen?: { allowed: boolean; reason?: string };
+  cooldownMs?: number;              // Left on the signal cooldown
+  threshold?: number;               // Effective momentumThreshold / maxChasePercent passed in
+  chase?: number;
+  strategyName?: string;            // Missing on old records = "momentum"
+  strategy?: typeof config.strategy;
+  settings?: object;                // Strategy.settings snapshot (e.g. config.kallisti)
+  memberSettings?: Record<string, object>;  // Ensemble: each member's settings snapshot
+  signal?: StrategySignal;
+  sizing?: SizingPlan;              // How the entry was sized (or why sizing refused it)
+  closed: { id: string; reason: string; exitPrice: number; pnl: number }[];
+  opened?: { id: string; side: "Long" | "Short"; entryPrice: number };
+  error?: string;
+}
+
+export interface ReplayResult {
+  replayable: boolean;              // False when the scan never reached the strategy
+  match: boolean;
+  action?: ScanAction;
+  signal?: StrategySignal;
+  diffs: string[];
+}
+
+/** Enough candles for the strategy to see exactly what it saw on the full buffer */
+export function candleTail(candles: Candle[], history: number): Candle[] {
+  return candles.slice(-history);
+}
+
+export function hashCandles(candles: Candle[]): string {
+  return createHash("sha256").update(JSON.stringify(candles)).digest("hex");
+}
+
+/** JSON with sorted keys, so equal values compare equal whatever order they were built in */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+/** The entry decision scan() takes once it has a signal */
+export function entryAction(signal: StrategySignal, preferredSide?: "Long" | "Short" | null): ScanAction {
+  if (!signal.detected) return "no-signal";
+  if (preferredSide && signal.side !== preferredSide) return "side-filter";
+  return "enter";
+}
+
+/**
+ * Re-run the recorded strategy on the recorded candles with the recorded settings
+ * and compare signal and entry decision against what the scan logged.
+ */
+export function replayDecision(record: ScanRecord): ReplayResult {
+  if (!record.candles || !record.signal || !record.strategy) {
+    return { replayable: false, match: true, diffs: [] };
+  }
+
+  const strategy = getStrategy(record.strategyName ?? "momentum");
+  const saved = { ...config.strategy };
+  const savedSettings = strategy.settings && { ...strategy.settings };
+  Object.assign(config.strategy, record.strategy);
+  if (strategy.settings && record.settings) Object.assign(strategy.settings, record.settings);
+  // Members are resolved from the (now restored) ensemble settings
+  const members = (strategy.members ?? []).filter(m => m.settings && record.memberSettings?.[m.name]);
+  const savedMembers = members.map(m => ({ ...m.settings }));
+  members.forEach(m => Object.assign(m.settings!, record.memberSettings![m.name]));
+  let signal: StrategySignal;
+  try {
+    signal = strategy.evaluate({
+      candles: record.candles,
+      timeframes: record.timeframes,
+      overrides: { momentumThreshold: record.threshold, maxChasePercent: record.chase },
+    });
+  } finally {
+    Object.assign(config.strategy, saved);
+    members.forEach((m, i) => Object.assign(m.settings!, savedMembers[i]));
+    if (strategy.settings) Object.assign(strategy.settings, savedSettings);
+  }
+
+  const diffs: string[] = [];
+  if (canonical(signal) !== canonical(record.signal)) {
+    diffs.push(`signal: logged ${canonical(record.signal)}, replayed ${canonical(signal)}`);
+  }
+  const action = entryAction(signal, record.overrides?.preferredSide);
+  // Sizing runs after the entry decision on live state, so a refused entry still replays as "enter"
+  const logged = record.action === "sized-out" ? "enter" : record.action;
+  if (action !== logged) diffs.push(`action: logged ${record.action}, replayed ${action}`);
+
+  return { replayable: true, match: diffs.length === 0, action, signal, diffs };
+}
+
+export class DecisionLog {
+  private size: number | null = null;
+
+  constructor(
+    private path: string = config.decisionLog.path,
+    private maxBytes: number = config.decisionLog.maxBytes,
+    private keep: number = config.decisionLog.keep,
+  ) {}
+
+  /** Never throws — a full disk shouldn't stop the scan loop */
+  async append(record: ScanRecord) {
+    const line = JSON.stringify(record) + "\n";
+    const bytes = Buffer.byteLength(line);
+    try {
+      if (this.size === null) {
+        await mkdir(dirname(this.path), { recursive: true });
+        this.size = await stat(this.path).then(s => s.size, () => 0);
+      }
+      if (this.size > 0 && this.size + bytes > this.maxBytes) await this.rotate();
+      await appendFile(this.path, line);
+      this.size += bytes;
+    } catch (err) {
+      error(`Decision log write failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  private async rotate() {
+    const rotated = backupPaths(this.path, this.keep);
+    if (rotated.length > 0) {
+      await unlink(rotated[rotated.length - 1]).catch(() => {});
+      for (let i = rotated.length - 1; i > 0; i--) {
+        await rename(rotated[i - 1], rotated[i]).catch(() => {});
+      }
+      await rename(this.path, rotated[0]);
+    } else {
+      await unlink(this.path);
+    }
+    this.size = 0;
+  }
+}
@@ -0,0 +1,111 @@
+// Binance USDⓈ-M Futures - signed REST client for live order execution
+// Only what the scalper needs: leverage, lot size, market + reduce-only orders,
+// plus the public funding / open interest endpoints that live on fapi
+
+import { createHmac } from "crypto";
+import { awaitFill, checkFill } from "./types";
+import type { LotSize, OrderFill, MarketOrderRequest } from "./types";
+import { timedFetch } from "../metrics";
+
+// Order statuses that won't fill any further
+const FINAL_STATUSES = new Set(["FILLED", "CANCELED", "REJECTED", "EXPIRED", "EXPIRED_IN_MATCH"]);
+
+function toFill(result: any): OrderFill {
+  return {
+    orderId: String(result.orderId),
+    avgPrice: parseFloat(result.avgPrice),
+    executedQty: parseFloat(result.executedQty),
+    status: result.status,
+  };
+}
+
+export class BinanceFuturesClient {
+  private lotSizes = new Map<string, LotSize>();
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string,
+    private apiSecret: string,
+    private recvWindow = 5000
+  ) {}
+
+  private sign(query: string): string {
+    return createHmac("sha256", this.apiSecret).update(query).digest("hex");
+  }
+
+  private async request(method: "GET" | "POST" | "DELETE", path: string, params: Record<string, string>, signed: boolean) {
+    const search = new URLSearchParams(params);
+    if (signed) {
+      search.set("recvWindow", String(this.recvWindow));
+      search.set("timestamp", String(Date.now()));
+      search.set("signature", this.sign(search.toString()));
+    }
+
+    const url = new URL(path, this.baseUrl);
+    url.search = search.toString();
+
+    const response = await timedFetch("binance", url.toString(), {
+      method,
+      headers: signed ? { "X-MBX-APIKEY": this.apiKey } : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(`Binance Futures HTTP ${response.status}: ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  async getFundingRate(symbol: string): Promise<number> {
+    const data: any = await this.request("GET", "/fapi/v1/premiumIndex", { symbol }, false);
+    return parseFloat(data.lastFundingRate);
+  }
+
+  async getOpenInterest(symbol: string): Promise<number> {
+    const data: any = await this.request("GET", "/fapi/v1/openInterest", { symbol }, false);
+    return parseFloat(data.openInterest);
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<void> {
+    await this.request("POST", "/fapi/v1/leverage", { symbol, leverage: String(leverage) }, true);
+  }
+
+  /** LOT_SIZE filter for the symbol, cached after the first lookup */
+  async getLotSize(symbol: string): Promise<LotSize> {
+    const cached = this.lotSizes.get(symbol);
+    if (cached) return cached;
+
+    const info: any = await this.request("GET", "/fapi/v1/exchangeInfo", {}, false);
+    const market = info.symbols?.find((s: any) => s.symbol === symbol);
+    const filter = market?.filters?.find((f: any) => f.filterType === "LOT_SIZE");
+    if (!filter) {
+      throw new Error(`No LOT_SIZE filter for ${symbol}`);
+    }
+
+    const lotSize = { stepSize: parseFloat(filter.stepSize), minQty: parseFloat(filter.minQty) };
+    this.lotSizes.set(symbol, lotSize);
+    return lotSize;
+  }
+
+  async placeMarketOrder(order: MarketOrderRequest): Promise<OrderFill> {
+    const params: Record<string, string> = {
+      symbol: order.symbol,
+      side: order.side,
+      type: "MARKET",
+      quantity: String(order.quantity),
+      newOrderRespType: "RESULT",
+    };
+    if (order.reduceOnly) params.reduceOnly = "true";
+
+    const created = toFill(await this.request("POST", "/fapi/v1/order", params, true));
+    const label = `Binance order ${created.orderId}`;
+    if (FINAL_STATUSES.has(created.status)) return checkFill(created, label);
+
+    // RESULT usually comes back FILLED; a NEW/PARTIALLY_FILLED ack has no usable average yet
+    const ids = { symbol: order.symbol, orderId: created.orderId };
+    return awaitFill({
+      label,
+      final: FINAL_STATUSES,
+      read: async () => toFill(await this.request("GET", "/fapi/v1/order", ids, true)),
+      cancel: () => this.request("DELETE", "/fapi/v1/order", ids, true),
+    });
+  }
+}
@@ -0,0 +1,194 @@
+// Binance WebSocket market data - kline + bookTicker streams
+// Keeps a rolling buffer of the last N candles (forming candle included) and
+// pushes every top-of-book tick, so exits no longer wait for the 30s REST poll.
+// On connect/reconnect, or when a kline arrives after a gap, the buffer is
+// rebuilt from REST (any ExchangeAdapter) so strategies never see missing bars.
+// If that rebuild fails, klines are dropped (no candle-close scans) until one succeeds.
+
+import { log, error } from "../logger";
+import type { Candle } from "../types";
+import type { ExchangeAdapter } from "./types";
+
+const INTERVAL_MS: Record<string, number> = {
+  "1m": 60_000,
+  "3m": 180_000,
+  "5m": 300_000,
+  "15m": 900_000,
+};
+const STALE_MS = 30_000;        // No message for 30s = dead socket, force reconnect
+const MAX_RECONNECT_MS = 30_000;
+const BACKFILL_RETRY_MS = 10_000; // After a failed gap backfill, klines are dropped this long before retrying
+
+export interface BookTick {
+  bid: number;
+  ask: number;
+  time: number;
+}
+
+export interface StreamHandlers {
+  /** Every bookTicker update */
+  onTick?: (tick: BookTick) => void;
+  /** Kline closed — buffer ends with the just-closed candle */
+  onCandleClose?: (candles: Candle[]) => void;
+}
+
+export class BinanceStream {
+  private candles: Candle[] = [];
+  private ws: WebSocket | null = null;
+  private stopped = false;
+  private backfilling: Promise<boolean> | null = null;
+  private backfillFailedAt = 0;
+  private lastMessage = 0;
+  private reconnectDelay = 1000;
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+  private intervalMs: number;
+  lastTick: BookTick | null = null;
+
+  constructor(
+    private rest: ExchangeAdapter,
+    private symbol: string,
+    private interval: string,
+    private limit: number,
+    private streamUrl: string,
+    private handlers: StreamHandlers = {}
+  ) {
+    this.intervalMs = INTERVAL_MS[interval] ?? 60_000;
+  }
+
+  /** Copy of the rolling buffer (oldest first, last one may still be forming) */
+  get buffer(): Candle[] {
+    return [...this.candles];
+  }
+
+  get connected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  async start() {
+    this.stopped = false;
+    await this.backfill();
+    this.connect();
+    this.watchdog = setInterval(() => {
+      if (this.connected && Date.now() - this.lastMessage > STALE_MS) {
+        log(`⚠️  ${this.symbol} stream silent for ${STALE_MS / 1000}s, reconnecting`);
+        this.ws?.close();
+      }
+    }, STALE_MS / 2);
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.watchdog) clearInterval(this.watchdog);
+    this.ws?.close();
+  }
+
+  /** Rebuild the buffer from REST; false if that failed and the buffer was left as it was */
+  private backfill(): Promise<boolean> {
+    if (!this.backfilling) {
+      this.backfilling = this.rest.getCandles(this.symbol, this.interval, this.limit)
+        .then(candles => {
+          this.candles = candles;
+          return true;
+        })
+        .catch(err => {
+          error(`${this.symbol} stream backfill failed: ${err instanceof Error ? err.message : String(err)}`);
+          return false;
+        })
+        .finally(() => {
+          this.backfilling = null;
+        });
+    }
+    return this.backfilling;
+  }
+
+  private connect() {
+    const sym = this.symbol.toLowerCase();
+    const url = `${this.streamUrl}/stream?streams=${sym}@kline_${this.interval}/${sym}@bookTicker`;
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      log(`🔌 Streaming ${this.symbol} ${this.interval} klines + bookTicker`);
+      this.lastMessage = Date.now();
+      if (this.reconnectDelay > 1000) {
+        // We were down — fill whatever we missed before trusting the buffer again
+        this.backfill();
+      }
+      this.reconnectDelay = 1000;
+    };
+
+    ws.onmessage = event => {
+      this.lastMessage = Date.now();
+      try {
+        const msg = JSON.parse(String(event.data));
+        if (msg.stream?.endsWith("@bookTicker")) {
+          this.handleTick(msg.data);
+        } else if (msg.stream?.includes("@kline_")) {
+          this.handleKline(msg.data.k);
+        }
+      } catch (err) {
+        error(`Stream message error: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    };
+
+    ws.onclose = () => {
+      if (this.stopped) return;
+      log(`🔌 ${this.symbol} stream closed, reconnecting in ${this.reconnectDelay / 1000}s`);
+      setTimeout(() => this.connect(), this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_MS);
+    };
+
+    ws.onerror = () => {
+      // onclose follows and handles the reconnect
+    };
+  }
+
+  private handleTick(data: any) {
+    const tick: BookTick = {
+      bid: parseFloat(data.b),
+      ask: parseFloat(data.a),
+      time: Date.now(),
+    };
+    this.lastTick = tick;
+    this.handlers.onTick?.(tick);
+  }
+
+  private async handleKline(k: any) {
+    const candle: Candle = {
+      time: k.t,
+      open: parseFloat(k.o),
+      high: parseFloat(k.h),
+      low: parseFloat(k.l),
+      close: parseFloat(k.c),
+      volume: parseFloat(k.v),
+    };
+
+    const last = this.candles[this.candles.length - 1];
+    if (last && candle.time > last.time + this.intervalMs) {
+      // Missed at least one bar — rebuild from REST before appending. Until that works the kline
+      // is dropped: appending it would hand the strategy a buffer with bars missing
+      if (Date.now() - this.backfillFailedAt < BACKFILL_RETRY_MS) return;
+      log(`⚠️  ${this.symbol} kline gap (${(candle.time - last.time) / this.intervalMs - 1} bars), backfilling`);
+      if (!(await this.backfill())) {
+        this.backfillFailedAt = Date.now();
+        log(`⚠️  ${this.symbol} klines dropped until a backfill succeeds (retry in ${BACKFILL_RETRY_MS / 1000}s)`);
+        return;
+      }
+    }
+    this.upsert(candle);
+
+    if (k.x) {
+      this.handlers.onCandleClose?.(this.buffer);
+    }
+  }
+
+  private upsert(candle: Candle) {
+    const last = this.candles[this.candles.length - 1];
+    if (last && candle.time === last.time) {
+      this.candles[this.candles.length - 1] = candle;
+    } else if (!last || candle.time > last.time) {
+      this.candles.push(candle);
+      if (this.candles.length > this.limit) this.candles.shift();
+    }
+  }
+}
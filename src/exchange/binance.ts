@@ -1,7 +1,33 @@
+import type { Candle } from "../types";
+import type { ExchangeAdapter, LotSize, MarketOrderRequest, OrderBook, OrderFill, Ticker } from "./types";
+import { BinanceFuturesClient } from "./binance-futures";
+import { timedFetch } from "../metrics";
+
 export interface BinanceKlinesResponse extends Array<number | string> {}
 
-export class BinanceClient {
-  constructor(private baseUrl: string = "https://api.binance.com") {}
+/** Convert raw Binance kline arrays into Candles */
+export function normalizeCandles(rawKlines: any[]): Candle[] {
+  return rawKlines.map((k: any) => ({
+    time: k[0],
+    open: parseFloat(k[1]),
+    high: parseFloat(k[2]),
+    low: parseFloat(k[3]),
+    close: parseFloat(k[4]),
+    volume: parseFloat(k[5]),
+  }));
+}
+
+export class BinanceClient implements ExchangeAdapter {
+  readonly name = "binance" as const;
+
+  /**
+   * Market data comes from the spot/public data API (baseUrl); funding, open
+   * interest and orders go through the USDⓈ-M futures client.
+   */
+  constructor(
+    private baseUrl: string = "https://api.binance.com",
+    private futures: BinanceFuturesClient = new BinanceFuturesClient("https://fapi.binance.com", "", "")
+  ) {}
 
   async getKlines(symbol: string, interval: string, limit = 50) {
     const url = new URL("/api/v3/klines", this.baseUrl);
@@ -9,7 +35,7 @@ export class BinanceClient {
     url.searchParams.set("interval", interval);
     url.searchParams.set("limit", String(limit));
 
-    const response = await fetch(url.toString());
+    const response = await timedFetch("binance", url.toString());
     if (!response.ok) {
       throw new Error(`Binance HTTP ${response.status}: ${await response.text()}`);
     }
@@ -17,4 +43,59 @@ export class BinanceClient {
     const result: BinanceKlinesResponse[] = await response.json();
     return { list: result };
   }
+
+  async getCandles(symbol: string, interval: string, limit: number): Promise<Candle[]> {
+    const klines = await this.getKlines(symbol, interval, limit);
+    return normalizeCandles(klines.list);
+  }
+
+  async getTicker(symbol: string): Promise<Ticker> {
+    const url = new URL("/api/v3/ticker/bookTicker", this.baseUrl);
+    url.searchParams.set("symbol", symbol);
+
+    const response = await timedFetch("binance", url.toString());
+    if (!response.ok) {
+      throw new Error(`Binance HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const data: any = await response.json();
+    const bid = parseFloat(data.bidPrice);
+    const ask = parseFloat(data.askPrice);
+    return { symbol, price: (bid + ask) / 2, bid, ask, time: Date.now() };
+  }
+
+  async getOrderBook(symbol: string, limit: number): Promise<OrderBook> {
+    const url = new URL("/api/v3/depth", this.baseUrl);
+    url.searchParams.set("symbol", symbol);
+    url.searchParams.set("limit", String(limit));
+
+    const response = await timedFetch("binance", url.toString());
+    if (!response.ok) {
+      throw new Error(`Binance HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const data: any = await response.json();
+    const levels = (rows: string[][]) => rows.map(([price, qty]) => ({ price: parseFloat(price), qty: parseFloat(qty) }));
+    return { bids: levels(data.bids), asks: levels(data.asks), time: Date.now() };
+  }
+
+  getFundingRate(symbol: string): Promise<number> {
+    return this.futures.getFundingRate(symbol);
+  }
+
+  getOpenInterest(symbol: string): Promise<number> {
+    return this.futures.getOpenInterest(symbol);
+  }
+
+  setLeverage(symbol: string, leverage: number): Promise<void> {
+    return this.futures.setLeverage(symbol, leverage);
+  }
+
+  getLotSize(symbol: string): Promise<LotSize> {
+    return this.futures.getLotSize(symbol);
+  }
+
+  placeMarketOrder(order: MarketOrderRequest): Promise<OrderFill> {
+    return this.futures.placeMarketOrder(order);
+  }
 }
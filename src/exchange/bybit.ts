@@ -0,0 +1,179 @@
+// Bybit v5 (USDT linear perpetuals) - normalized into the ExchangeAdapter shape
+// Klines come back newest-first as string arrays; we reverse into our Candle order.
+
+import { createHmac } from "crypto";
+import type { Candle } from "../types";
+import { awaitFill } from "./types";
+import type { ExchangeAdapter, LotSize, MarketOrderRequest, OrderBook, OrderFill, Ticker } from "./types";
+import { timedFetch } from "../metrics";
+
+// Our interval names → Bybit's
+const INTERVALS: Record<string, string> = {
+  "1m": "1", "3m": "3", "5m": "5", "15m": "15", "30m": "30", "1h": "60", "4h": "240", "1d": "D",
+};
+
+// Order statuses that won't fill any further (a market order's IOC rest cancels as PartiallyFilledCanceled)
+const FINAL_STATUSES = new Set(["Filled", "PartiallyFilledCanceled", "Cancelled", "Rejected", "Deactivated"]);
+
+export class BybitClient implements ExchangeAdapter {
+  readonly name = "bybit" as const;
+  private lotSizes = new Map<string, LotSize>();
+
+  constructor(
+    private baseUrl: string = "https://api.bybit.com",
+    private apiKey: string = "",
+    private apiSecret: string = "",
+    private recvWindow = 5000
+  ) {}
+
+  private async request(method: "GET" | "POST", path: string, params: Record<string, string | boolean>, signed: boolean) {
+    const url = new URL(path, this.baseUrl);
+    let body: string | undefined;
+    if (method === "GET") {
+      url.search = new URLSearchParams(params as Record<string, string>).toString();
+    } else {
+      body = JSON.stringify(params);
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (signed) {
+      // sign = HMAC(timestamp + apiKey + recvWindow + (queryString | jsonBody))
+      const timestamp = String(Date.now());
+      const payload = timestamp + this.apiKey + this.recvWindow + (body ?? url.search.slice(1));
+      headers["X-BAPI-API-KEY"] = this.apiKey;
+      headers["X-BAPI-TIMESTAMP"] = timestamp;
+      headers["X-BAPI-RECV-WINDOW"] = String(this.recvWindow);
+      headers["X-BAPI-SIGN"] = createHmac("sha256", this.apiSecret).update(payload).digest("hex");
+    }
+
+    const response = await timedFetch("bybit", url.toString(), { method, headers, body });
+    if (!response.ok) {
+      throw new Error(`Bybit HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const data: any = await response.json();
+    if (data.retCode !== 0) {
+      throw Object.assign(new Error(`Bybit ${data.retCode}: ${data.retMsg}`), { retCode: data.retCode });
+    }
+    return data.result;
+  }
+
+  async getCandles(symbol: string, interval: string, limit: number): Promise<Candle[]> {
+    const result = await this.request("GET", "/v5/market/kline", {
+      category: "linear",
+      symbol,
+      interval: INTERVALS[interval] ?? interval,
+      limit: String(limit),
+    }, false);
+
+    // [start, open, high, low, close, volume, turnover], newest first
+    return result.list
+      .map((k: string[]) => ({
+        time: parseInt(k[0]),
+        open: parseFloat(k[1]),
+        high: parseFloat(k[2]),
+        low: parseFloat(k[3]),
+        close: parseFloat(k[4]),
+        volume: parseFloat(k[5]),
+      }))
+      .reverse();
+  }
+
+  private async getLinearTicker(symbol: string): Promise<any> {
+    const result = await this.request("GET", "/v5/market/tickers", { category: "linear", symbol }, false);
+    const ticker = result.list?.[0];
+    if (!ticker) throw new Error(`Bybit has no ticker for ${symbol}`);
+    return ticker;
+  }
+
+  async getTicker(symbol: string): Promise<Ticker> {
+    const t = await this.getLinearTicker(symbol);
+    return {
+      symbol,
+      price: parseFloat(t.lastPrice),
+      bid: parseFloat(t.bid1Price),
+      ask: parseFloat(t.ask1Price),
+      time: Date.now(),
+    };
+  }
+
+  async getOrderBook(symbol: string, limit: number): Promise<OrderBook> {
+    const result = await this.request("GET", "/v5/market/orderbook", {
+      category: "linear",
+      symbol,
+      limit: String(limit),
+    }, false);
+    const levels = (rows: string[][]) => rows.map(([price, qty]) => ({ price: parseFloat(price), qty: parseFloat(qty) }));
+    return { bids: levels(result.b), asks: levels(result.a), time: result.ts };
+  }
+
+  async getFundingRate(symbol: string): Promise<number> {
+    const t = await this.getLinearTicker(symbol);
+    return parseFloat(t.fundingRate);
+  }
+
+  async getOpenInterest(symbol: string): Promise<number> {
+    const result = await this.request("GET", "/v5/market/open-interest", {
+      category: "linear",
+      symbol,
+      intervalTime: "5min",
+      limit: "1",
+    }, false);
+    return parseFloat(result.list[0].openInterest);
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<void> {
+    try {
+      await this.request("POST", "/v5/position/set-leverage", {
+        category: "linear",
+        symbol,
+        buyLeverage: String(leverage),
+        sellLeverage: String(leverage),
+      }, true);
+    } catch (err: any) {
+      // 110043 = leverage not modified (already set) — not an error for us
+      if (err?.retCode !== 110043) throw err;
+    }
+  }
+
+  async getLotSize(symbol: string): Promise<LotSize> {
+    const cached = this.lotSizes.get(symbol);
+    if (cached) return cached;
+
+    const result = await this.request("GET", "/v5/market/instruments-info", { category: "linear", symbol }, false);
+    const filter = result.list?.[0]?.lotSizeFilter;
+    if (!filter) throw new Error(`No lotSizeFilter for ${symbol}`);
+
+    const lotSize = { stepSize: parseFloat(filter.qtyStep), minQty: parseFloat(filter.minOrderQty) };
+    this.lotSizes.set(symbol, lotSize);
+    return lotSize;
+  }
+
+  async placeMarketOrder(order: MarketOrderRequest): Promise<OrderFill> {
+    const created = await this.request("POST", "/v5/order/create", {
+      category: "linear",
+      symbol: order.symbol,
+      side: order.side === "BUY" ? "Buy" : "Sell",
+      orderType: "Market",
+      qty: String(order.quantity),
+      reduceOnly: order.reduceOnly ?? false,
+    }, true);
+
+    // Create only acks the id — read the order back until it's done for the average fill
+    const ids = { category: "linear", symbol: order.symbol, orderId: created.orderId };
+    return awaitFill({
+      label: `Bybit order ${created.orderId}`,
+      final: FINAL_STATUSES,
+      read: async () => {
+        const o = (await this.request("GET", "/v5/order/realtime", ids, true)).list?.[0];
+        return o && {
+          orderId: created.orderId,
+          avgPrice: parseFloat(o.avgPrice),
+          executedQty: parseFloat(o.cumExecQty),
+          status: o.orderStatus,
+        };
+      },
+      cancel: () => this.request("POST", "/v5/order/cancel", ids, true),
+    });
+  }
+}
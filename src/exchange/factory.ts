@@ -0,0 +1,112 @@
+// Exchange factory - builds adapters from config and wraps market data in failover
+// Orders never fail over: a position opened on one venue must be closed on the same one.
+
+import { config, ExchangeProvider } from "../config";
+import { log } from "../logger";
+import { BinanceClient } from "./binance";
+import { BinanceFuturesClient } from "./binance-futures";
+import { BybitClient } from "./bybit";
+import { OkxClient } from "./okx";
+import type { Candle } from "../types";
+import type { ExchangeAdapter, LotSize, MarketOrderRequest, OrderBook, OrderFill, Ticker } from "./types";
+
+export function createExchange(provider: ExchangeProvider): ExchangeAdapter {
+  switch (provider) {
+    case "binance": {
+      const { baseUrl, apiKey, apiSecret, recvWindow } = config.execution;
+      return new BinanceClient(
+        config.dataSource.baseUrl,
+        new BinanceFuturesClient(baseUrl, apiKey, apiSecret, recvWindow)
+      );
+    }
+    case "bybit": {
+      const { baseUrl, apiKey, apiSecret } = config.exchanges.bybit;
+      return new BybitClient(baseUrl, apiKey, apiSecret);
+    }
+    case "okx": {
+      const { baseUrl, apiKey, apiSecret, passphrase } = config.exchanges.okx;
+      return new OkxClient(baseUrl, apiKey, apiSecret, passphrase);
+    }
+    default:
+      throw new Error(`Unknown exchange provider: ${provider}`);
+  }
+}
+
+/** True if the venue has the keys it needs to place orders */
+export function hasTradingKeys(provider: ExchangeProvider): boolean {
+  switch (provider) {
+    case "binance":
+      return !!config.execution.apiKey && !!config.execution.apiSecret;
+    case "bybit":
+      return !!config.exchanges.bybit.apiKey && !!config.exchanges.bybit.apiSecret;
+    case "okx":
+      return !!config.exchanges.okx.apiKey && !!config.exchanges.okx.apiSecret && !!config.exchanges.okx.passphrase;
+  }
+}
+
+/**
+ * Market data from the primary venue, falling back to the next one when a call
+ * throws. Order methods go to the primary only.
+ */
+export class FailoverExchange implements ExchangeAdapter {
+  constructor(private venues: ExchangeAdapter[]) {
+    if (venues.length === 0) throw new Error("FailoverExchange needs at least one venue");
+  }
+
+  get name() {
+    return this.venues[0].name;
+  }
+
+  private async firstOk<T>(what: string, call: (venue: ExchangeAdapter) => Promise<T>): Promise<T> {
+    let lastErr: unknown;
+    for (const venue of this.venues) {
+      try {
+        const result = await call(venue);
+        if (venue !== this.venues[0]) log(`🔀 ${what} served by ${venue.name} (${this.venues[0].name} down)`);
+        return result;
+      } catch (err) {
+        lastErr = err;
+      }
+    }
+    throw lastErr;
+  }
+
+  getCandles(symbol: string, interval: string, limit: number): Promise<Candle[]> {
+    return this.firstOk("candles", v => v.getCandles(symbol, interval, limit));
+  }
+
+  getTicker(symbol: string): Promise<Ticker> {
+    return this.firstOk("ticker", v => v.getTicker(symbol));
+  }
+
+  getOrderBook(symbol: string, limit: number): Promise<OrderBook> {
+    return this.firstOk("order book", v => v.getOrderBook(symbol, limit));
+  }
+
+  getFundingRate(symbol: string): Promise<number> {
+    return this.firstOk("funding", v => v.getFundingRate(symbol));
+  }
+
+  getOpenInterest(symbol: string): Promise<number> {
+    return this.firstOk("open interest", v => v.getOpenInterest(symbol));
+  }
+
+  setLeverage(symbol: string, leverage: number): Promise<void> {
+    return this.venues[0].setLeverage(symbol, leverage);
+  }
+
+  getLotSize(symbol: string): Promise<LotSize> {
+    return this.venues[0].getLotSize(symbol);
+  }
+
+  placeMarketOrder(order: MarketOrderRequest): Promise<OrderFill> {
+    return this.venues[0].placeMarketOrder(order);
+  }
+}
+
+/** Market data adapter for config.dataSource (provider + fallbacks) */
+export function createMarketData(): ExchangeAdapter {
+  const { provider, fallbackProviders } = config.dataSource;
+  const venues = [provider, ...fallbackProviders.filter(p => p !== provider)].map(createExchange);
+  return venues.length === 1 ? venues[0] : new FailoverExchange(venues);
+}
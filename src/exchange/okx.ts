@@ -0,0 +1,199 @@
+// OKX v5 (USDT-margined swaps) - normalized into the ExchangeAdapter shape
+// OKX names instruments BTC-USDT-SWAP and sizes orders in contracts (ctVal BTC each);
+// the adapter takes our BTCUSDT + base-asset quantity and converts both ways.
+
+import { createHmac } from "crypto";
+import type { Candle } from "../types";
+import { awaitFill, roundToStep } from "./types";
+import type { ExchangeAdapter, LotSize, MarketOrderRequest, OrderBook, OrderFill, Ticker } from "./types";
+import { timedFetch } from "../metrics";
+
+// Our interval names → OKX bar names (hours and up are upper-case)
+const BARS: Record<string, string> = {
+  "1m": "1m", "3m": "3m", "5m": "5m", "15m": "15m", "30m": "30m", "1h": "1H", "4h": "4H", "1d": "1D",
+};
+
+const QUOTES = ["USDT", "USDC", "USD"];
+
+// Order states that won't fill any further
+const FINAL_STATES = new Set(["filled", "canceled", "mmp_canceled"]);
+
+/** BTCUSDT → BTC-USDT-SWAP */
+export function toOkxInstId(symbol: string): string {
+  const quote = QUOTES.find(q => symbol.endsWith(q));
+  if (!quote) throw new Error(`Can't map ${symbol} to an OKX instrument`);
+  return `${symbol.slice(0, -quote.length)}-${quote}-SWAP`;
+}
+
+interface Instrument {
+  ctVal: number;   // Base asset per contract
+  lotSz: number;   // Contract step
+  minSz: number;   // Min contracts
+}
+
+export class OkxClient implements ExchangeAdapter {
+  readonly name = "okx" as const;
+  private instruments = new Map<string, Instrument>();
+
+  constructor(
+    private baseUrl: string = "https://www.okx.com",
+    private apiKey: string = "",
+    private apiSecret: string = "",
+    private passphrase: string = ""
+  ) {}
+
+  private async request(method: "GET" | "POST", path: string, params: Record<string, string | boolean>, signed: boolean) {
+    let requestPath = path;
+    let body: string | undefined;
+    if (method === "GET") {
+      const query = new URLSearchParams(params as Record<string, string>).toString();
+      if (query) requestPath += "?" + query;
+    } else {
+      body = JSON.stringify(params);
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (signed) {
+      // sign = base64(HMAC(timestamp + method + requestPath + body))
+      const timestamp = new Date().toISOString();
+      const payload = timestamp + method + requestPath + (body ?? "");
+      headers["OK-ACCESS-KEY"] = this.apiKey;
+      headers["OK-ACCESS-TIMESTAMP"] = timestamp;
+      headers["OK-ACCESS-PASSPHRASE"] = this.passphrase;
+      headers["OK-ACCESS-SIGN"] = createHmac("sha256", this.apiSecret).update(payload).digest("base64");
+    }
+
+    const response = await timedFetch("okx", new URL(requestPath, this.baseUrl).toString(), { method, headers, body });
+    if (!response.ok) {
+      throw new Error(`OKX HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const data: any = await response.json();
+    if (data.code !== "0") {
+      const detail = data.data?.[0]?.sMsg ? ` (${data.data[0].sMsg})` : "";
+      throw new Error(`OKX ${data.code}: ${data.msg}${detail}`);
+    }
+    return data.data;
+  }
+
+  private async getInstrument(symbol: string): Promise<Instrument> {
+    const cached = this.instruments.get(symbol);
+    if (cached) return cached;
+
+    const data = await this.request("GET", "/api/v5/public/instruments", {
+      instType: "SWAP",
+      instId: toOkxInstId(symbol),
+    }, false);
+    const inst = data[0];
+    if (!inst) throw new Error(`OKX has no swap for ${symbol}`);
+
+    const instrument = {
+      ctVal: parseFloat(inst.ctVal),
+      lotSz: parseFloat(inst.lotSz),
+      minSz: parseFloat(inst.minSz),
+    };
+    this.instruments.set(symbol, instrument);
+    return instrument;
+  }
+
+  async getCandles(symbol: string, interval: string, limit: number): Promise<Candle[]> {
+    const data = await this.request("GET", "/api/v5/market/candles", {
+      instId: toOkxInstId(symbol),
+      bar: BARS[interval] ?? interval,
+      limit: String(limit),
+    }, false);
+
+    // [ts, o, h, l, c, vol(contracts), volCcy(base), volCcyQuote, confirm], newest first
+    return data
+      .map((k: string[]) => ({
+        time: parseInt(k[0]),
+        open: parseFloat(k[1]),
+        high: parseFloat(k[2]),
+        low: parseFloat(k[3]),
+        close: parseFloat(k[4]),
+        volume: parseFloat(k[6]),
+      }))
+      .reverse();
+  }
+
+  async getTicker(symbol: string): Promise<Ticker> {
+    const data = await this.request("GET", "/api/v5/market/ticker", { instId: toOkxInstId(symbol) }, false);
+    const t = data[0];
+    return {
+      symbol,
+      price: parseFloat(t.last),
+      bid: parseFloat(t.bidPx),
+      ask: parseFloat(t.askPx),
+      time: parseInt(t.ts),
+    };
+  }
+
+  async getOrderBook(symbol: string, limit: number): Promise<OrderBook> {
+    const inst = await this.getInstrument(symbol);
+    const data = await this.request("GET", "/api/v5/market/books", {
+      instId: toOkxInstId(symbol),
+      sz: String(limit),
+    }, false);
+    // [px, sz(contracts), deprecated, orders]
+    const levels = (rows: string[][]) => rows.map(r => ({ price: parseFloat(r[0]), qty: parseFloat(r[1]) * inst.ctVal }));
+    return { bids: levels(data[0].bids), asks: levels(data[0].asks), time: parseInt(data[0].ts) };
+  }
+
+  async getFundingRate(symbol: string): Promise<number> {
+    const data = await this.request("GET", "/api/v5/public/funding-rate", { instId: toOkxInstId(symbol) }, false);
+    return parseFloat(data[0].fundingRate);
+  }
+
+  async getOpenInterest(symbol: string): Promise<number> {
+    const data = await this.request("GET", "/api/v5/public/open-interest", {
+      instType: "SWAP",
+      instId: toOkxInstId(symbol),
+    }, false);
+    return parseFloat(data[0].oiCcy);
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<void> {
+    await this.request("POST", "/api/v5/account/set-leverage", {
+      instId: toOkxInstId(symbol),
+      lever: String(leverage),
+      mgnMode: "isolated",
+    }, true);
+  }
+
+  async getLotSize(symbol: string): Promise<LotSize> {
+    const inst = await this.getInstrument(symbol);
+    return { stepSize: inst.lotSz * inst.ctVal, minQty: inst.minSz * inst.ctVal };
+  }
+
+  async placeMarketOrder(order: MarketOrderRequest): Promise<OrderFill> {
+    const inst = await this.getInstrument(order.symbol);
+    const instId = toOkxInstId(order.symbol);
+    const contracts = roundToStep(order.quantity / inst.ctVal, inst.lotSz);
+
+    const created = await this.request("POST", "/api/v5/trade/order", {
+      instId,
+      tdMode: "isolated",
+      side: order.side === "BUY" ? "buy" : "sell",
+      ordType: "market",
+      sz: String(contracts),
+      reduceOnly: order.reduceOnly ?? false,
+    }, true);
+    const ordId = created[0].ordId;
+
+    // Order ack has no fill info — read it back until it's done
+    return awaitFill({
+      label: `OKX order ${ordId}`,
+      final: FINAL_STATES,
+      read: async () => {
+        const o = (await this.request("GET", "/api/v5/trade/order", { instId, ordId }, true))[0];
+        return o && {
+          orderId: ordId,
+          avgPrice: parseFloat(o.avgPx),
+          executedQty: parseFloat(o.accFillSz) * inst.ctVal,
+          status: o.state,
+        };
+      },
+      cancel: () => this.request("POST", "/api/v5/trade/cancel-order", { instId, ordId }, true),
+    });
+  }
+}
@@ -0,0 +1,132 @@
+// Exchange Adapter - the one shape every venue is normalized into
+// Market data comes back as our Candle/Ticker, orders in base-asset quantity
+// (adapters convert to contracts etc. internally)
+
+import type { Candle } from "../types";
+import type { ExchangeProvider } from "../config";
+import { error, log } from "../logger";
+
+export type OrderSide = "BUY" | "SELL";
+
+export interface Ticker {
+  symbol: string;
+  price: number;
+  bid?: number;
+  ask?: number;
+  time: number;
+}
+
+export interface BookLevel {
+  price: number;
+  qty: number;      // Base asset
+}
+
+export interface OrderBook {
+  bids: BookLevel[];  // Best first
+  asks: BookLevel[];
+  time: number;
+}
+
+export interface LotSize {
+  stepSize: number;
+  minQty: number;
+}
+
+export interface OrderFill {
+  orderId: string;
+  avgPrice: number;
+  executedQty: number;
+  status: string;
+}
+
+export interface MarketOrderRequest {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  reduceOnly?: boolean;
+}
+
+export interface ExchangeAdapter {
+  readonly name: ExchangeProvider;
+
+  // Market data (public)
+  getCandles(symbol: string, interval: string, limit: number): Promise<Candle[]>;
+  getTicker(symbol: string): Promise<Ticker>;
+  getOrderBook(symbol: string, limit: number): Promise<OrderBook>;
+  /** Current funding rate as a fraction (0.0001 = 0.01%) */
+  getFundingRate(symbol: string): Promise<number>;
+  /** Open interest in base asset (BTC for BTCUSDT) */
+  getOpenInterest(symbol: string): Promise<number>;
+
+  // Orders (signed) — throw if the adapter has no API keys
+  setLeverage(symbol: string, leverage: number): Promise<void>;
+  getLotSize(symbol: string): Promise<LotSize>;
+  placeMarketOrder(order: MarketOrderRequest): Promise<OrderFill>;
+}
+
+/** Round a quantity down to the exchange step size (avoids float dust like 0.30000000004) */
+export function roundToStep(quantity: number, stepSize: number): number {
+  const decimals = (stepSize.toFixed(12).replace(/0+$/, "").split(".")[1] || "").length;
+  const steps = Math.floor(quantity / stepSize + 1e-9);
+  return parseFloat((steps * stepSize).toFixed(decimals));
+}
+
+/** How awaitFill reads, and if need be cancels, one order */
+export interface OrderPoll {
+  label: string;                                // "Bybit order 123", for errors and logs
+  read: () => Promise<OrderFill | undefined>;   // Undefined = not visible yet
+  final: ReadonlySet<string>;                   // Statuses that won't fill any further
+  cancel: () => Promise<unknown>;
+  timeoutMs?: number;
+  intervalMs?: number;
+}
+
+const message = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Read an order back until its status is final — for venues whose create call only acks the id.
+ * Past the timeout the order is cancelled and read once more, and whatever filled by then is
+ * returned so the caller books it: throwing would leave a position the ledger doesn't know about.
+ * It only throws when nothing filled, or the order can't be read back; the latter, like an order
+ * that may still fill, is logged as 🚨 RECONCILE for a manual check on the venue.
+ */
+export async function awaitFill(poll: OrderPoll): Promise<OrderFill> {
+  const { label, final, timeoutMs = 5000, intervalMs = 200 } = poll;
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    // A failed read isn't the order failing — keep trying until the deadline
+    const fill = await poll.read().catch(err => {
+      error(`${label} read failed: ${message(err)}`);
+      return undefined;
+    });
+    if (fill && final.has(fill.status)) return checkFill(fill, label);
+    if (Date.now() >= deadline) break;
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  await poll.cancel().catch(err => error(`${label} cancel after ${timeoutMs}ms failed: ${message(err)}`));
+  let fill: OrderFill | undefined;
+  try {
+    fill = await poll.read();
+  } catch (err) {
+    error(`🚨 RECONCILE ${label}: not final after ${timeoutMs}ms and unreadable after cancel (${message(err)})`);
+    throw err;
+  }
+
+  const settled = fill !== undefined && final.has(fill.status);
+  if (fill && fill.executedQty > 0) {
+    if (settled) log(`⚠️ ${label} cancelled after ${timeoutMs}ms, booking the ${fill.executedQty} filled`);
+    else error(`🚨 RECONCILE ${label}: booking ${fill.executedQty} filled, but the order is still ${fill.status}`);
+    return checkFill(fill, label);
+  }
+  if (!settled) error(`🚨 RECONCILE ${label}: unfilled but still ${fill?.status ?? "not visible"} after cancel`);
+  throw new Error(`${label} not filled after ${timeoutMs}ms${settled ? ", cancelled" : ""}`);
+}
+
+/** A fill the ledger can book: finite price and some quantity, else the order is treated as failed */
+export function checkFill(fill: OrderFill, label: string): OrderFill {
+  if (!Number.isFinite(fill.avgPrice) || fill.avgPrice <= 0 || !(fill.executedQty > 0)) {
+    throw new Error(`${label} ${fill.status} without a fill (avg price ${fill.avgPrice}, qty ${fill.executedQty})`);
+  }
+  return fill;
+}
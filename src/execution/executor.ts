@@ -0,0 +1,183 @@
+// Order Execution - what actually happens when the ledger opens/closes a position
+// paper: JSON only, priced by the fill model (spread, slippage, latency) unless PAPER_FILLS=off
+// live:  market entry + reduce-only market exit on the configured venue
+//        (Binance USDⓈ-M by default), position re-priced to the real fill and
+//        tagged with venue + exchange order ids
+
+import { config } from "../config";
+import { error, log } from "../logger";
+import { roundToStep } from "../exchange/types";
+import type { ExchangeAdapter, OrderSide } from "../exchange/types";
+import { createExchange, createMarketData, hasTradingKeys } from "../exchange/factory";
+import { bookFill, modelFill, slippageBps } from "./fill-model";
+import type { Position } from "../risk/recovery-manager";
+
+export interface ExitFill {
+  price: number;
+  orderId?: string;
+  quantity?: number;          // Live partial exits: base-asset quantity filled
+}
+
+export interface OrderExecutor {
+  open(position: Position): Promise<Position>;
+  close(position: Position, exitPrice: number, reason: string): Promise<ExitFill>;
+  /** Exit `share` (0-1) of what is still open — a scale-out leg */
+  reduce(position: Position, share: number, exitPrice: number, reason: string): Promise<ExitFill>;
+}
+
+/** Move entry, stop and target to the fill, keeping their distances in percent */
+function reanchor(position: Position, fillPrice: number): Position {
+  const shift = fillPrice / position.entryPrice;
+  return {
+    ...position,
+    entryPrice: fillPrice,
+    stopLoss: position.stopLoss * shift,
+    takeProfit: position.takeProfit * shift,
+  };
+}
+
+/**
+ * Simulated fills. With a market data adapter (the server) it waits out the
+ * configured latency, then walks the venue's order book for our size. Without
+ * one (the backtester — no live book, no real clock) it uses the fixed-bps model.
+ */
+export class PaperExecutor implements OrderExecutor {
+  constructor(private market?: ExchangeAdapter, private symbol: string = config.symbol) {}
+
+  async open(position: Position): Promise<Position> {
+    const side: OrderSide = position.side === "Long" ? "BUY" : "SELL";
+    const notional = position.collateral * position.leverage;
+    const price = await this.fill(position.symbol ?? this.symbol, side, position.entryPrice, notional, "ENTRY");
+    return price === position.entryPrice ? position : reanchor(position, price);
+  }
+
+  async close(position: Position, exitPrice: number): Promise<ExitFill> {
+    return this.reduce(position, 1, exitPrice);
+  }
+
+  async reduce(position: Position, share: number, exitPrice: number): Promise<ExitFill> {
+    const side: OrderSide = position.side === "Long" ? "SELL" : "BUY";
+    const notional = position.collateral * share * position.leverage * (exitPrice / position.entryPrice);
+    return { price: await this.fill(position.symbol ?? this.symbol, side, exitPrice, notional, share < 1 ? "PARTIAL EXIT" : "EXIT") };
+  }
+
+  private async fill(symbol: string, side: OrderSide, signalPrice: number, notional: number, leg: string): Promise<number> {
+    const cfg = config.paperFills;
+    if (!cfg.enabled) return signalPrice;
+    if (!this.market) return modelFill(side, signalPrice, notional);
+
+    await Bun.sleep(cfg.latencyMs);
+
+    let price: number | null = null;
+    if (cfg.depthLimit > 0) {
+      try {
+        const book = await this.market.getOrderBook(symbol, cfg.depthLimit);
+        price = bookFill(side, book, notional / signalPrice);
+      } catch (err) {
+        log(`⚠️  Order book unavailable, using fixed slippage model: ${err}`);
+      }
+    }
+    const source = price === null ? "model" : "book";
+    price ??= modelFill(side, signalPrice, notional);
+
+    log(`📄 PAPER ${symbol} ${leg} ${side} $${notional.toFixed(0)} @ $${price.toFixed(2)} (signal $${signalPrice.toFixed(2)}, ${slippageBps(side, signalPrice, price).toFixed(2)}bps, ${source})`);
+    return price;
+  }
+}
+
+export class LiveExecutor implements OrderExecutor {
+  private leverageSet = new Set<string>();
+
+  constructor(private client: ExchangeAdapter, private symbol: string = config.symbol) {}
+
+  async open(position: Position): Promise<Position> {
+    const symbol = position.symbol ?? this.symbol;
+    if (!this.leverageSet.has(symbol)) {
+      await this.client.setLeverage(symbol, position.leverage);
+      this.leverageSet.add(symbol);
+    }
+
+    const lot = await this.client.getLotSize(symbol);
+    const notional = position.collateral * position.leverage;
+    const quantity = roundToStep(notional / position.entryPrice, lot.stepSize);
+    if (quantity < lot.minQty) {
+      throw new Error(`Order qty ${quantity} below min ${lot.minQty} for ${symbol}`);
+    }
+
+    const fill = await this.client.placeMarketOrder({
+      symbol,
+      side: position.side === "Long" ? "BUY" : "SELL",
+      quantity,
+    });
+    log(`🏦 ${this.client.name.toUpperCase()} ${symbol} ENTRY order ${fill.orderId} ${fill.status}: ${fill.executedQty} @ $${fill.avgPrice.toFixed(2)} (signal $${position.entryPrice.toFixed(2)})`);
+
+    // Re-anchor stop/target to the real fill and size collateral to the real notional
+    return {
+      ...reanchor(position, fill.avgPrice),
+      collateral: (fill.executedQty * fill.avgPrice) / position.leverage,
+      quantity: fill.executedQty,
+      venue: this.client.name,
+      entryOrderId: fill.orderId,
+    };
+  }
+
+  async close(position: Position, exitPrice: number, reason: string): Promise<ExitFill> {
+    if (!position.quantity) {
+      throw new Error(`Position ${position.id} has no exchange quantity, cannot close live`);
+    }
+
+    // What's left after partial exits can carry float dust (0.009 − 0.004 = 0.004999…)
+    const symbol = position.symbol ?? this.symbol;
+    const lot = await this.client.getLotSize(symbol);
+    const quantity = roundToStep(position.quantity, lot.stepSize);
+    const fill = await this.client.placeMarketOrder({
+      symbol,
+      side: position.side === "Long" ? "SELL" : "BUY",
+      quantity,
+      reduceOnly: true,
+    });
+    log(`🏦 ${this.client.name.toUpperCase()} ${symbol} EXIT order ${fill.orderId} ${fill.status}: ${fill.executedQty} @ $${fill.avgPrice.toFixed(2)} (signal $${exitPrice.toFixed(2)}, ${reason})`);
+    // A timed-out order cancelled part-way: the ledger books the close, the venue keeps the rest
+    if (fill.executedQty < quantity) {
+      error(`🚨 RECONCILE ${symbol} ${position.id}: exit filled ${fill.executedQty} of ${quantity}, ${roundToStep(quantity - fill.executedQty, lot.stepSize)} still open on ${this.client.name}`);
+    }
+
+    return { price: fill.avgPrice, orderId: fill.orderId };
+  }
+
+  async reduce(position: Position, share: number, exitPrice: number, reason: string): Promise<ExitFill> {
+    if (!position.quantity) {
+      throw new Error(`Position ${position.id} has no exchange quantity, cannot reduce live`);
+    }
+
+    const symbol = position.symbol ?? this.symbol;
+    const lot = await this.client.getLotSize(symbol);
+    const quantity = roundToStep(position.quantity * share, lot.stepSize);
+    if (quantity < lot.minQty) {
+      throw new Error(`Partial exit qty ${quantity} below min ${lot.minQty} for ${symbol}`);
+    }
+
+    const fill = await this.client.placeMarketOrder({
+      symbol,
+      side: position.side === "Long" ? "SELL" : "BUY",
+      quantity,
+      reduceOnly: true,
+    });
+    log(`🏦 ${this.client.name.toUpperCase()} ${symbol} PARTIAL EXIT order ${fill.orderId} ${fill.status}: ${fill.executedQty} of ${position.quantity} @ $${fill.avgPrice.toFixed(2)} (signal $${exitPrice.toFixed(2)}, ${reason})`);
+
+    return { price: fill.avgPrice, orderId: fill.orderId, quantity: fill.executedQty };
+  }
+}
+
+/** Executor for config.tradingMode — live refuses to start without API keys */
+export function createExecutor(): OrderExecutor {
+  if (config.tradingMode !== "live") {
+    return new PaperExecutor(createMarketData());
+  }
+
+  const venue = config.execution.venue;
+  if (!hasTradingKeys(venue)) {
+    throw new Error(`TRADING_MODE=live requires API keys for ${venue}`);
+  }
+  return new LiveExecutor(createExchange(venue));
+}
@@ -0,0 +1,40 @@
+// Paper Fill Model - what a market order at the signal price would really have paid
+// half-spread: crossing from mid to the touch
+// slippage:    walk the order book for our size, or fixed bps + size impact when depth is unavailable
+// latency:     the book is read after the signal → venue delay, so the market can move first
+
+import { config } from "../config";
+import type { BookLevel, OrderBook, OrderSide } from "../exchange/types";
+
+/** Fill vs signal in bps, positive = paid worse than the signal */
+export function slippageBps(side: OrderSide, signalPrice: number, fillPrice: number): number {
+  const diff = side === "BUY" ? fillPrice - signalPrice : signalPrice - fillPrice;
+  return (diff / signalPrice) * 10_000;
+}
+
+/** Volume-weighted price for `quantity` taken from one side of the book, null if the book is too thin */
+export function walkBook(levels: BookLevel[], quantity: number): number | null {
+  let remaining = quantity;
+  let cost = 0;
+
+  for (const level of levels) {
+    const take = Math.min(remaining, level.qty);
+    cost += take * level.price;
+    remaining -= take;
+    if (remaining <= 0) return cost / quantity;
+  }
+  return null;
+}
+
+/** Fill from depth: BUY lifts asks, SELL hits bids. Spread is already in the book. */
+export function bookFill(side: OrderSide, book: OrderBook, quantity: number): number | null {
+  return walkBook(side === "BUY" ? book.asks : book.bids, quantity);
+}
+
+/** Fixed-bps fill: half-spread + base slippage + impact per $100k of notional */
+export function modelFill(side: OrderSide, signalPrice: number, notional: number): number {
+  const { halfSpreadBps, slippageBps, impactBpsPer100k } = config.paperFills;
+  const bps = halfSpreadBps + slippageBps + impactBpsPer100k * (notional / 100_000);
+  const direction = side === "BUY" ? 1 : -1;
+  return signalPrice * (1 + direction * bps / 10_000);
+}
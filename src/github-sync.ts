@@ -1,18 +1,26 @@
 // GitHub Sync - Persist ledger across Railway redeploys
-// Reads/writes data/ledger.json to GitHub repo
+// Reads/writes data/ledger.json (snapshot) + data/journal.jsonl (events since it) to GitHub repo
 // v3.1: Added 409 conflict retry (re-fetch SHA on conflict)
+// v3.3: The journal is small and pushed every time; the snapshot only when it changed
 
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFile, mkdir } from "fs/promises";
 import { log, error } from "./logger";
+import { writeFileAtomic } from "./storage";
+import { timedFetch } from "./metrics";
 
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN || "";
 const REPO = process.env.GITHUB_REPO || "kallgit-codex/kallisti-scalper";
 const BRANCH = process.env.GITHUB_BRANCH || "data";
-const LEDGER_PATH = "data/ledger.json";
-const LOCAL_LEDGER = "./data/ledger.json";
+
+// Remote path → local path. Snapshot first: a pushed journal must never be newer than its snapshot.
+const FILES: Array<[string, string]> = [
+  ["data/ledger.json", "./data/ledger.json"],
+  ["data/journal.jsonl", "./data/journal.jsonl"],
+];
 
 export class GitHubSync {
-  private sha: string = "";
+  private shas: Record<string, string> = {};
+  private pushed: Record<string, string> = {};
 
   constructor() {
     log(`📡 GitHub Sync: repo=${REPO} branch=${BRANCH} token=${GITHUB_TOKEN ? "SET (" + GITHUB_TOKEN.slice(0, 6) + "...)" : "MISSING"}`);
@@ -27,10 +35,10 @@ export class GitHubSync {
   }
 
   /** Fetch current SHA from GitHub */
-  private async fetchRemoteSha(): Promise<string> {
+  private async fetchRemoteSha(remotePath: string): Promise<string> {
     try {
-      const resp = await fetch(
-        `https://api.github.com/repos/${REPO}/contents/${LEDGER_PATH}?ref=${BRANCH}`,
+      const resp = await timedFetch("github",
+        `https://api.github.com/repos/${REPO}/contents/${remotePath}?ref=${BRANCH}`,
         { headers: this.headers }
       );
       if (resp.ok) {
@@ -47,28 +55,37 @@ export class GitHubSync {
       return false;
     }
 
+    // Ensure directory exists
+    await mkdir("./data", { recursive: true });
+
+    let pulled = false;
+    for (const [remotePath, localPath] of FILES) {
+      pulled = (await this.pullFile(remotePath, localPath)) || pulled;
+    }
+    return pulled;
+  }
+
+  private async pullFile(remotePath: string, localPath: string): Promise<boolean> {
     try {
-      const resp = await fetch(
-        `https://api.github.com/repos/${REPO}/contents/${LEDGER_PATH}?ref=${BRANCH}`,
+      const resp = await timedFetch("github",
+        `https://api.github.com/repos/${REPO}/contents/${remotePath}?ref=${BRANCH}`,
         { headers: this.headers }
       );
 
       if (!resp.ok) {
-        log(`📥 No remote ledger found (${resp.status}), starting fresh`);
+        log(`📥 No remote ${remotePath} found (${resp.status}), starting fresh`);
         return false;
       }
 
       const data: any = await resp.json();
-      this.sha = data.sha;
+      this.shas[remotePath] = data.sha;
 
       // Decode base64 content
-      const content = atob(data.content.replace(/\n/g, ""));
-
-      // Ensure directory exists
-      await mkdir("./data", { recursive: true });
-      await writeFile(LOCAL_LEDGER, content);
+      const content = Buffer.from(data.content, "base64").toString("utf8");
+      await writeFileAtomic(localPath, content);
+      this.pushed[remotePath] = content;
 
-      log(`📥 Pulled ledger from GitHub (sha: ${this.sha.slice(0, 7)})`);
+      log(`📥 Pulled ${remotePath} from GitHub (sha: ${data.sha.slice(0, 7)})`);
       return true;
     } catch (err) {
       error(`GitHub pull failed: ${err instanceof Error ? err.message : String(err)}`);
@@ -82,15 +99,32 @@ export class GitHubSync {
       return false;
     }
 
+    for (const [remotePath, localPath] of FILES) {
+      if (!(await this.pushFile(remotePath, localPath))) return false;
+    }
+    return true;
+  }
+
+  /** Upload one file if it changed since the last pull/push */
+  private async pushFile(remotePath: string, localPath: string): Promise<boolean> {
+    let content: string;
+    try {
+      content = await readFile(localPath, "utf-8");
+    } catch {
+      // Journal is archived on every snapshot — a missing file is an empty one
+      content = "";
+    }
+    if (this.pushed[remotePath] === content) return true;
+
     // Try up to 2 times (retry once on SHA conflict)
     for (let attempt = 0; attempt < 2; attempt++) {
       try {
-        const content = await readFile(LOCAL_LEDGER, "utf-8");
-        const encoded = btoa(content);
+        // UTF-8, not btoa: journaled reasons can carry emoji or accents
+        const encoded = Buffer.from(content, "utf8").toString("base64");
 
         // Get current SHA if we don't have it
-        if (!this.sha) {
-          this.sha = await this.fetchRemoteSha();
+        if (!this.shas[remotePath]) {
+          this.shas[remotePath] = await this.fetchRemoteSha(remotePath);
         }
 
         const body: any = {
@@ -99,12 +133,12 @@ export class GitHubSync {
           branch: BRANCH,
         };
 
-        if (this.sha) {
-          body.sha = this.sha;
+        if (this.shas[remotePath]) {
+          body.sha = this.shas[remotePath];
         }
 
-        const resp = await fetch(
-          `https://api.github.com/repos/${REPO}/contents/${LEDGER_PATH}`,
+        const resp = await timedFetch("github",
+          `https://api.github.com/repos/${REPO}/contents/${remotePath}`,
           {
             method: "PUT",
             headers: this.headers,
@@ -115,7 +149,7 @@ export class GitHubSync {
         if (resp.status === 409 && attempt === 0) {
           // SHA conflict — re-fetch and retry
           log("⚠️  SHA conflict on push, re-fetching SHA and retrying...");
-          this.sha = await this.fetchRemoteSha();
+          this.shas[remotePath] = await this.fetchRemoteSha(remotePath);
           continue;
         }
 
@@ -126,8 +160,9 @@ export class GitHubSync {
         }
 
         const result: any = await resp.json();
-        this.sha = result.content.sha;
-        log(`📤 Ledger synced to GitHub (sha: ${this.sha.slice(0, 7)})`);
+        this.shas[remotePath] = result.content.sha;
+        this.pushed[remotePath] = content;
+        log(`📤 ${remotePath} synced to GitHub (sha: ${this.shas[remotePath].slice(0, 7)})`);
         return true;
       } catch (err) {
         error(`GitHub push error: ${err instanceof Error ? err.message : String(err)}`);
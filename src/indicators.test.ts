@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import {
+  Atr, Bollinger, Ema, RealizedVol, Rsi, Sma, VolumeZScore, Vwap,
+  atr, bollinger, ema, realizedVol, rsi, volumeZScore, vwap,
+} from "./indicators";
+import type { Candle } from "./types";
+
+const DAY_MS = 86_400_000;
+
+function candle(time: number, high: number, low: number, close: number, volume = 1): Candle {
+  return { time, open: close, high, low, close, volume };
+}
+
+describe("ema", () => {
+  test("is NaN until seeded with the SMA of the first period values", () => {
+    const values = ema([1, 2, 3, 4, 5], 3);
+    expect(values.slice(0, 2).every(Number.isNaN)).toBe(true);
+    expect(values[2]).toBe(2);
+  });
+
+  test("then applies k = 2 / (period + 1)", () => {
+    // k = 0.5: 4 × 0.5 + 2 × 0.5 = 3, then 5 × 0.5 + 3 × 0.5 = 4
+    expect(ema([1, 2, 3, 4, 5], 3).slice(2)).toEqual([2, 3, 4]);
+  });
+});
+
+describe("rsi (Wilder)", () => {
+  test("seeds with simple averages, then smooths (prev × (n−1) + x) / n", () => {
+    // Changes +1 +1 −1 +1 with period 2: 100, then gain/loss 0.5/0.5 → 50, then 0.75/0.25 → 75
+    const values = rsi([1, 2, 3, 2, 3], 2);
+    expect(values.slice(0, 2).every(Number.isNaN)).toBe(true);
+    expect(values.slice(2)).toEqual([100, 50, 75]);
+  });
+
+  test("is 50 on a flat series", () => {
+    expect(rsi([5, 5, 5, 5], 2)[3]).toBe(50);
+  });
+});
+
+describe("atr (Wilder)", () => {
+  test("uses the true range across gaps and Wilder smoothing", () => {
+    const values = atr([
+      candle(0, 10, 8, 9),        // TR 2 (no previous close)
+      candle(1, 11, 9, 10),       // TR 2 → seed mean 2
+      candle(2, 13, 10, 12),      // TR 3 → (2 + 3) / 2
+      candle(3, 12, 11, 11.5),    // TR max(1, 0, |11 − 12|) = 1 → (2.5 + 1) / 2
+    ], 2);
+    expect(Number.isNaN(values[0])).toBe(true);
+    expect(values.slice(1)).toEqual([2, 2.5, 1.75]);
+  });
+});
+
+describe("bollinger", () => {
+  test("bands sit multiplier × population std dev around the SMA", () => {
+    const [, , band] = bollinger([1, 2, 3], 3, 2);
+    const sd = Math.sqrt(2 / 3);
+    expect(band.middle).toBe(2);
+    expect(band.stdDev).toBeCloseTo(sd, 12);
+    expect(band.upper).toBeCloseTo(2 + 2 * sd, 12);
+    expect(band.lower).toBeCloseTo(2 - 2 * sd, 12);
+  });
+});
+
+describe("vwap", () => {
+  test("weights the typical price by volume and restarts each session", () => {
+    const values = vwap([
+      candle(0, 3, 1, 2, 1),               // typical 2
+      candle(60_000, 6, 2, 4, 3),          // typical 4 → (2 + 12) / 4
+      candle(DAY_MS, 11, 9, 10, 5),        // new UTC day → 10
+    ]);
+    expect(values).toEqual([2, 3.5, 10]);
+  });
+});
+
+describe("realizedVol", () => {
+  test("is the population std dev of log returns, in %", () => {
+    // Log returns +1, −1, +1: std dev 1 → 100% per candle
+    const values = realizedVol([1, Math.E, 1, Math.E], 2);
+    expect(values.slice(0, 2).every(Number.isNaN)).toBe(true);
+    expect(values[2]).toBeCloseTo(100, 12);
+    expect(values[3]).toBeCloseTo(100, 12);
+  });
+});
+
+describe("volumeZScore", () => {
+  test("compares volume with the period volumes before it", () => {
+    // Window 1, 2, 3: mean 2, std dev √(2/3) → (10 − 2) / √(2/3) = 8√1.5
+    const values = volumeZScore([1, 2, 3, 10].map((v, i) => candle(i, 1, 1, 1, v)), 3);
+    expect(values.slice(0, 3).every(Number.isNaN)).toBe(true);
+    expect(values[3]).toBeCloseTo(8 * Math.sqrt(1.5), 12);
+  });
+
+  test("is 0 over a flat window", () => {
+    expect(volumeZScore([5, 5, 5, 7].map((v, i) => candle(i, 1, 1, 1, v)), 3)[3]).toBe(0);
+  });
+});
+
+// The streaming classes, fed one value at a time, against the same hand-computed values
+describe("streaming classes", () => {
+  const feed = <T, R>(update: (x: T) => R, inputs: T[]) => inputs.map(x => update(x));
+
+  test("Ema", () => {
+    const ind = new Ema(3);
+    expect(feed(x => ind.update(x), [1, 2, 3, 4, 5]).slice(2)).toEqual([2, 3, 4]);
+  });
+
+  test("Rsi", () => {
+    const ind = new Rsi(2);
+    expect(feed(x => ind.update(x), [1, 2, 3, 2, 3]).slice(2)).toEqual([100, 50, 75]);
+  });
+
+  test("Atr", () => {
+    const ind = new Atr(2);
+    const values = feed(c => ind.update(c), [
+      candle(0, 10, 8, 9),
+      candle(1, 11, 9, 10),
+      candle(2, 13, 10, 12),
+      candle(3, 12, 11, 11.5),
+    ]);
+    expect(values.slice(1)).toEqual([2, 2.5, 1.75]);
+  });
+
+  test("Bollinger keeps rolling after the window wraps", () => {
+    const ind = new Bollinger(3, 2);
+    const [, , first, second] = feed(x => ind.update(x), [1, 2, 3, 6]);
+    expect(first.middle).toBe(2);
+    // Window 2, 3, 6: mean 11/3, variance (4 + 9 + 36) / 3 − (11/3)² = 26/9
+    expect(second.middle).toBeCloseTo(11 / 3, 12);
+    expect(second.stdDev).toBeCloseTo(Math.sqrt(26 / 9), 12);
+  });
+
+  test("Vwap", () => {
+    const ind = new Vwap();
+    expect(feed(c => ind.update(c), [
+      candle(0, 3, 1, 2, 1),
+      candle(60_000, 6, 2, 4, 3),
+      candle(DAY_MS, 11, 9, 10, 5),
+    ])).toEqual([2, 3.5, 10]);
+  });
+
+  test("RealizedVol", () => {
+    const ind = new RealizedVol(2);
+    expect(feed(x => ind.update(x), [1, Math.E, 1])[2]).toBeCloseTo(100, 12);
+  });
+
+  test("VolumeZScore", () => {
+    const ind = new VolumeZScore(3);
+    expect(feed(x => ind.update(x), [1, 2, 3, 10])[3]).toBeCloseTo(8 * Math.sqrt(1.5), 12);
+  });
+
+  test("Sma", () => {
+    const ind = new Sma(2);
+    expect(feed(x => ind.update(x), [1, 3, 5, 7]).slice(1)).toEqual([2, 4, 6]);
+  });
+});
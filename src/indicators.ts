@@ -0,0 +1,285 @@
+// Indicators - one implementation of every indicator the strategies use
+// Each comes twice: a streaming class updated one value/candle at a time (O(1) per
+// update) and an array function that runs the same class over a series, so both
+// always agree. Values before an indicator has enough data are NaN.
+//
+// Strategies stay pure and call the array functions on the candles they're given;
+// anything holding state across scans (streams, the backtest) can use the classes.
+
+import type { Candle } from "./types";
+
+const DAY_MS = 86_400_000;
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : NaN;
+}
+
+/** Last element, NaN for an empty series */
+export function last(values: number[]): number {
+  return values.length > 0 ? values[values.length - 1] : NaN;
+}
+
+/** Fixed-size ring buffer with running sum and sum of squares */
+class RollingWindow {
+  private values: number[] = [];
+  private next = 0;
+  private sum = 0;
+  private sumSq = 0;
+
+  constructor(readonly size: number) {}
+
+  push(value: number) {
+    if (this.values.length < this.size) {
+      this.values.push(value);
+    } else {
+      const old = this.values[this.next];
+      this.sum -= old;
+      this.sumSq -= old * old;
+      this.values[this.next] = value;
+      this.next = (this.next + 1) % this.size;
+    }
+    this.sum += value;
+    this.sumSq += value * value;
+  }
+
+  get full(): boolean {
+    return this.values.length === this.size;
+  }
+
+  get mean(): number {
+    return this.sum / this.values.length;
+  }
+
+  /** Population standard deviation (÷ n), as Bollinger defines it */
+  get stdDev(): number {
+    const m = this.mean;
+    return Math.sqrt(Math.max(0, this.sumSq / this.values.length - m * m));
+  }
+}
+
+export class Sma {
+  private window: RollingWindow;
+  value = NaN;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(x: number): number {
+    this.window.push(x);
+    this.value = this.window.full ? this.window.mean : NaN;
+    return this.value;
+  }
+}
+
+/** Exponential moving average, seeded with the SMA of the first `period` values */
+export class Ema {
+  private seed: number[] = [];
+  private k: number;
+  value = NaN;
+
+  constructor(readonly period: number) {
+    this.k = 2 / (period + 1);
+  }
+
+  update(x: number): number {
+    if (this.seed.length < this.period) {
+      this.seed.push(x);
+      if (this.seed.length === this.period) this.value = mean(this.seed);
+      return this.value;
+    }
+    this.value = x * this.k + this.value * (1 - this.k);
+    return this.value;
+  }
+}
+
+/** Wilder's RSI: simple average of the first `period` changes, then (prev × (n−1) + x) / n */
+export class Rsi {
+  private prev = NaN;
+  private gains = 0;
+  private losses = 0;
+  private changes = 0;
+  value = NaN;
+
+  constructor(readonly period: number) {}
+
+  update(close: number): number {
+    if (Number.isNaN(this.prev)) {
+      this.prev = close;
+      return this.value;
+    }
+    const change = close - this.prev;
+    this.prev = close;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    this.changes++;
+
+    if (this.changes <= this.period) {
+      this.gains += gain / this.period;
+      this.losses += loss / this.period;
+      if (this.changes < this.period) return this.value;
+    } else {
+      this.gains = (this.gains * (this.period - 1) + gain) / this.period;
+      this.losses = (this.losses * (this.period - 1) + loss) / this.period;
+    }
+
+    this.value = this.losses === 0 ? (this.gains === 0 ? 50 : 100) : 100 - 100 / (1 + this.gains / this.losses);
+    return this.value;
+  }
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+  stdDev: number;
+}
+
+const NO_BANDS: BollingerValue = { upper: NaN, middle: NaN, lower: NaN, stdDev: NaN };
+
+export class Bollinger {
+  private window: RollingWindow;
+  value: BollingerValue = NO_BANDS;
+
+  constructor(readonly period: number, readonly multiplier: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(close: number): BollingerValue {
+    this.window.push(close);
+    if (!this.window.full) return this.value;
+    const middle = this.window.mean;
+    const stdDev = this.window.stdDev;
+    this.value = { upper: middle + stdDev * this.multiplier, middle, lower: middle - stdDev * this.multiplier, stdDev };
+    return this.value;
+  }
+}
+
+/** Wilder's average true range, in price units */
+export class Atr {
+  private prevClose = NaN;
+  private seed: number[] = [];
+  value = NaN;
+
+  constructor(readonly period: number) {}
+
+  update(candle: Candle): number {
+    const tr = Number.isNaN(this.prevClose)
+      ? candle.high - candle.low
+      : Math.max(candle.high - candle.low, Math.abs(candle.high - this.prevClose), Math.abs(candle.low - this.prevClose));
+    this.prevClose = candle.close;
+
+    if (this.seed.length < this.period) {
+      this.seed.push(tr);
+      if (this.seed.length === this.period) this.value = mean(this.seed);
+      return this.value;
+    }
+    this.value = (this.value * (this.period - 1) + tr) / this.period;
+    return this.value;
+  }
+}
+
+/** Volume-weighted average of the typical price, restarting each `sessionMs` (UTC day by default) */
+export class Vwap {
+  private session = NaN;
+  private pv = 0;
+  private volume = 0;
+  value = NaN;
+
+  constructor(readonly sessionMs: number = DAY_MS) {}
+
+  update(candle: Candle): number {
+    const session = Math.floor(candle.time / this.sessionMs);
+    if (session !== this.session) {
+      this.session = session;
+      this.pv = 0;
+      this.volume = 0;
+    }
+    const typical = (candle.high + candle.low + candle.close) / 3;
+    this.pv += typical * candle.volume;
+    this.volume += candle.volume;
+    this.value = this.volume > 0 ? this.pv / this.volume : typical;
+    return this.value;
+  }
+}
+
+/** Standard deviation of the last `period` log returns, in % per candle */
+export class RealizedVol {
+  private prev = NaN;
+  private window: RollingWindow;
+  value = NaN;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(close: number): number {
+    if (!Number.isNaN(this.prev)) {
+      this.window.push(Math.log(close / this.prev));
+      if (this.window.full) this.value = this.window.stdDev * 100;
+    }
+    this.prev = close;
+    return this.value;
+  }
+}
+
+/** How unusual this volume is: (volume − mean) / std dev of the `period` volumes before it */
+export class VolumeZScore {
+  private window: RollingWindow;
+  value = NaN;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(volume: number): number {
+    if (this.window.full) {
+      const sd = this.window.stdDev;
+      this.value = sd > 0 ? (volume - this.window.mean) / sd : 0;
+    }
+    this.window.push(volume);
+    return this.value;
+  }
+}
+
+// ===== Array versions — one value per input, NaN during warm-up =====
+
+export function sma(values: number[], period: number): number[] {
+  const ind = new Sma(period);
+  return values.map(v => ind.update(v));
+}
+
+export function ema(values: number[], period: number): number[] {
+  const ind = new Ema(period);
+  return values.map(v => ind.update(v));
+}
+
+export function rsi(closes: number[], period: number): number[] {
+  const ind = new Rsi(period);
+  return closes.map(c => ind.update(c));
+}
+
+export function bollinger(closes: number[], period: number, multiplier: number): BollingerValue[] {
+  const ind = new Bollinger(period, multiplier);
+  return closes.map(c => ind.update(c));
+}
+
+export function atr(candles: Candle[], period: number): number[] {
+  const ind = new Atr(period);
+  return candles.map(c => ind.update(c));
+}
+
+export function vwap(candles: Candle[], sessionMs: number = DAY_MS): number[] {
+  const ind = new Vwap(sessionMs);
+  return candles.map(c => ind.update(c));
+}
+
+export function realizedVol(closes: number[], period: number): number[] {
+  const ind = new RealizedVol(period);
+  return closes.map(c => ind.update(c));
+}
+
+export function volumeZScore(candles: Candle[], period: number): number[] {
+  const ind = new VolumeZScore(period);
+  return candles.map(c => ind.update(c.volume));
+}
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Journal, JournalEntry } from "./journal";
+
+let dir: string;
+let path: string;
+
+const entry = (seq: number): JournalEntry => ({ type: "BalanceAdjusted", amount: seq, reason: "test", seq, time: seq });
+const lines = (...seqs: number[]) => seqs.map(seq => JSON.stringify(entry(seq)) + "\n").join("");
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "journal-"));
+  path = join(dir, "journal.jsonl");
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("Journal.read", () => {
+  test("is empty when the journal doesn't exist yet", async () => {
+    expect(await new Journal(path).read()).toEqual([]);
+  });
+
+  test("drops a torn last line and truncates it away", async () => {
+    await writeFile(path, lines(1, 2) + '{"type":"BalanceAdj');
+    const journal = new Journal(path);
+
+    expect((await journal.read()).map(e => e.seq)).toEqual([1, 2]);
+    expect(await readFile(path, "utf-8")).toBe(lines(1, 2));
+
+    // The next append starts on a clean line
+    await journal.append(entry(3));
+    expect((await journal.read()).map(e => e.seq)).toEqual([1, 2, 3]);
+  });
+
+  test("throws on a bad line that isn't the last one", async () => {
+    await writeFile(path, lines(1) + "garbage\n" + lines(3));
+    await expect(new Journal(path).read()).rejects.toThrow("line 2");
+  });
+});
+
+describe("Journal archives", () => {
+  test("rotate() archives the journal as journal.<first>-<last>.jsonl", async () => {
+    await writeFile(path, lines(1, 2, 3));
+    const archive = await new Journal(path).rotate();
+
+    expect(archive).toBe(join(dir, "journal.1-3.jsonl"));
+    expect(await readdir(dir)).toEqual(["journal.1-3.jsonl"]);
+  });
+
+  test("prune() deletes the archives that end at or before the seq", async () => {
+    await writeFile(join(dir, "journal.1-3.jsonl"), lines(1, 2, 3));
+    await writeFile(join(dir, "journal.4-6.jsonl"), lines(4, 5, 6));
+    await writeFile(path, lines(7));
+
+    expect(await new Journal(path).prune(5)).toEqual([join(dir, "journal.1-3.jsonl")]);
+    expect((await readdir(dir)).sort()).toEqual(["journal.4-6.jsonl", "journal.jsonl"]);
+  });
+
+  test("readSince() reads across archives, oldest first, after the given seq", async () => {
+    await writeFile(join(dir, "journal.4-6.jsonl"), lines(4, 5, 6));
+    await writeFile(join(dir, "journal.1-3.jsonl"), lines(1, 2, 3));
+    await writeFile(path, lines(7, 8));
+    const journal = new Journal(path);
+
+    expect((await journal.readSince(0)).map(e => e.seq)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect((await journal.readSince(5)).map(e => e.seq)).toEqual([6, 7, 8]);
+    expect((await journal.readSince(8)).map(e => e.seq)).toEqual([]);
+  });
+});
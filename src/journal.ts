@@ -0,0 +1,131 @@
+// Trade Journal - append-only JSONL of ledger events
+// Every state change is one line; LedgerState is rebuilt by replaying the lines
+// after the last ledger.json snapshot. Each entry carries a sequence number so a
+// replay can skip anything the snapshot already contains (no lost or doubled trades).
+//
+// Compaction: once a snapshot covers the whole journal, the file is renamed to
+// journal.<firstSeq>-<lastSeq>.jsonl and a fresh one is started. An archive is kept
+// while some backup snapshot still needs it for a restore, then pruned.
+
+import { appendFile, readFile, readdir, rename, unlink } from "fs/promises";
+import { basename, dirname, join } from "path";
+import { log } from "./logger";
+import { writeFileAtomic } from "./storage";
+import type { ExitLeg, Position, RecoveryEntry, StopMove } from "./risk/recovery-manager";
+
+export type LedgerEvent =
+  | { type: "PositionOpened"; position: Position }
+  | { type: "PositionReduced"; positionId: string; leg: ExitLeg }
+  | { type: "PositionClosed"; position: Position }
+  | { type: "StopMoved"; positionId: string; from: number; to: number; reason: StopMove["reason"] }
+  | ({ type: "RecoveryEntered"; positionId: string } & RecoveryEntry)
+  | { type: "DailyReset" }
+  | { type: "Paused"; until: number; reason: string }
+  | { type: "BalanceAdjusted"; amount: number; reason: string }
+  // Operator controls (src/control.ts)
+  | { type: "EntriesPaused"; reason: string }
+  | { type: "EntriesResumed"; reason: string }
+  | { type: "PauseCleared"; reason: string }
+  | { type: "BriefGateSet"; enabled: boolean; reason: string };
+
+export type JournalEntry = LedgerEvent & {
+  seq: number;
+  time: number;
+};
+
+export class Journal {
+  constructor(private path: string) {}
+
+  async append(entry: JournalEntry) {
+    await appendFile(this.path, JSON.stringify(entry) + "\n");
+  }
+
+  /**
+   * All entries in file order — empty if the journal doesn't exist yet.
+   * A torn final line (killed mid-append, no trailing newline) is dropped and
+   * truncated away so the next append starts clean; a bad line anywhere else throws.
+   */
+  async read(): Promise<JournalEntry[]> {
+    return this.readFile(this.path);
+  }
+
+  /** Entries after `seq`, from the archives still needed plus the live journal */
+  async readSince(seq: number): Promise<JournalEntry[]> {
+    const entries: JournalEntry[] = [];
+    for (const archive of await this.archivesAfter(seq)) {
+      entries.push(...await this.readFile(archive));
+    }
+    entries.push(...await this.read());
+    return entries.filter(e => e.seq > seq);
+  }
+
+  private async readFile(path: string): Promise<JournalEntry[]> {
+    let data: string;
+    try {
+      data = await readFile(path, "utf-8");
+    } catch {
+      return [];
+    }
+
+    const lines = data.split("\n");
+    const entries: JournalEntry[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+      try {
+        const entry = JSON.parse(lines[i]);
+        if (!Number.isInteger(entry.seq) || typeof entry.type !== "string") throw new Error("not an entry");
+        entries.push(entry);
+      } catch {
+        const torn = i === lines.length - 1 && !data.endsWith("\n");
+        if (!torn) throw new Error(`${path} line ${i + 1} is not a valid journal entry`);
+
+        log(`⚠️  Dropping torn last line of ${path} (write interrupted)`);
+        await writeFileAtomic(path, entries.map(e => JSON.stringify(e) + "\n").join(""));
+      }
+    }
+    return entries;
+  }
+
+  /** Archived segments, oldest first */
+  private async archives(): Promise<{ path: string; first: number; last: number }[]> {
+    const dir = dirname(this.path);
+    const prefix = basename(this.path).replace(/\.jsonl$/, "");
+    const pattern = new RegExp(`^${prefix}\\.(\\d+)-(\\d+)\\.jsonl$`);
+
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch {
+      return [];
+    }
+
+    return files
+      .map(file => ({ file, match: file.match(pattern) }))
+      .filter(f => f.match)
+      .map(f => ({ path: join(dir, f.file), first: parseInt(f.match![1]), last: parseInt(f.match![2]) }))
+      .sort((a, b) => a.first - b.first);
+  }
+
+  /** Archived segments holding entries after `seq`, oldest first */
+  private async archivesAfter(seq: number): Promise<string[]> {
+    return (await this.archives()).filter(a => a.last > seq).map(a => a.path);
+  }
+
+  /** Delete archived segments that end at or before `seq` — no snapshot left needs them. Returns the paths. */
+  async prune(seq: number): Promise<string[]> {
+    const stale = (await this.archives()).filter(a => a.last <= seq).map(a => a.path);
+    for (const path of stale) await unlink(path);
+    return stale;
+  }
+
+  /** Archive the current journal after a snapshot has absorbed it. Returns the archive path. */
+  async rotate(): Promise<string | null> {
+    const entries = await this.read();
+    if (entries.length === 0) return null;
+
+    const archive = this.path.replace(/\.jsonl$/, "") +
+      `.${entries[0].seq}-${entries[entries.length - 1].seq}.jsonl`;
+    await rename(this.path, archive);
+    return archive;
+  }
+}
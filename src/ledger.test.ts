@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { copyFile, mkdtemp, readFile, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { config } from "./config";
+import { Ledger, LedgerCorruptError, LedgerState, applyEvent } from "./ledger";
+import type { JournalEntry } from "./journal";
+import { PaperExecutor } from "./execution/executor";
+import { createPosition } from "./risk/recovery-manager";
+
+let dir: string;
+const saved = {
+  ledgerPath: config.ledgerPath,
+  journal: { ...config.journal },
+  paperFills: config.paperFills.enabled,
+  onCorruptLedger: config.onCorruptLedger,
+  ledgerBackups: config.ledgerBackups,
+  scaleOutLegs: config.scaleOut.legs,
+};
+
+/** A ledger persisting into the test's temp dir, with deterministic paper fills */
+function ledger(): Ledger {
+  return new Ledger({ executor: new PaperExecutor(), clock: () => 1_000_000 });
+}
+
+function emptyState(): LedgerState {
+  return {
+    balance: 1000, initialBalance: 1000, dailyStartBalance: 1000, dailyPnl: 0, consecutiveLosses: 0,
+    positions: [], lastReset: 0, tradesThisHour: 0, lastHourReset: 0, seq: 0,
+  };
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "ledger-"));
+  config.ledgerPath = join(dir, "ledger.json");
+  config.journal.path = join(dir, "journal.jsonl");
+  config.journal.snapshotEvery = 3;
+  config.paperFills.enabled = false;
+});
+
+afterEach(async () => {
+  config.ledgerPath = saved.ledgerPath;
+  Object.assign(config.journal, saved.journal);
+  config.paperFills.enabled = saved.paperFills;
+  config.onCorruptLedger = saved.onCorruptLedger;
+  config.ledgerBackups = saved.ledgerBackups;
+  config.scaleOut.legs = saved.scaleOutLegs;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("applyEvent", () => {
+  test("skips an entry whose seq is already applied", () => {
+    const state = emptyState();
+    const entry: JournalEntry = { type: "BalanceAdjusted", amount: 50, reason: "deposit", seq: 1, time: 0 };
+
+    expect(applyEvent(state, entry)).toBe(true);
+    expect(applyEvent(state, entry)).toBe(false);
+    expect(applyEvent(state, { ...entry, seq: 0 })).toBe(false);
+    expect(state.balance).toBe(1050);
+    expect(state.seq).toBe(1);
+  });
+});
+
+describe("Ledger.load", () => {
+  /** 7 events with a snapshot every 3: archives 1-3 and 4-6, seq 7 left in the live journal */
+  async function trade(): Promise<Ledger> {
+    const a = ledger();
+    await a.load();
+    const p = await a.openPosition(createPosition("Long", 100, 500, 0));
+    await a.closePosition(p.id, 100.2, "take-profit");
+    await a.adjustBalance(25, "deposit");
+    const q = await a.openPosition(createPosition("Short", 100, 500, 0));
+    await a.closePosition(q.id, 100.3, "stop-loss");
+    await a.pauseEntries("test");
+    await a.adjustBalance(-10, "withdrawal");
+    return a;
+  }
+
+  test("rebuilds the state from the snapshot plus the journal", async () => {
+    const a = await trade();
+    expect(a.state.seq).toBe(7);
+    expect((await readdir(dir)).filter(f => /^journal\.\d+-\d+\.jsonl$/.test(f)).sort())
+      .toEqual(["journal.1-3.jsonl", "journal.4-6.jsonl"]);
+
+    const b = ledger();
+    await b.load();
+    expect(b.state).toEqual(a.state);
+  });
+
+  test("replays archived segments when the snapshot is older than them", async () => {
+    const a = await trade();
+    // The seq-3 snapshot (one save back): entries 4-6 only exist in the archive now
+    await copyFile(`${config.ledgerPath}.1`, config.ledgerPath);
+
+    const b = ledger();
+    await b.load();
+    expect(b.state).toEqual(a.state);
+  });
+});
+
+describe("Ledger.save", () => {
+  test("prunes journal archives older than the oldest backup snapshot", async () => {
+    config.ledgerBackups = 1;
+    const a = ledger();
+    await a.load();
+    // Snapshots at seq 3, 6 and 9: the one backup is the seq-6 snapshot
+    for (let i = 1; i <= 9; i++) await a.adjustBalance(i, `adjust ${i}`);
+
+    expect((await readdir(dir)).filter(f => /^journal\./.test(f))).toEqual(["journal.7-9.jsonl"]);
+
+    // Restoring that backup still finds every entry after it
+    await writeFile(config.ledgerPath, "{ torn");
+    const b = ledger();
+    await b.load();
+    expect(b.state).toEqual(a.state);
+  });
+});
+
+describe("Ledger.runExitLadder", () => {
+  test("journals a scale-out leg, then runs the rest of the bar on what's left", async () => {
+    config.scaleOut.legs = [{ atTarget: 1, fraction: 0.5 }];
+    const a = ledger();
+    await a.load();
+    const p = await a.openPosition(createPosition("Long", 100, 500, 1_000_000, undefined, 75));
+    const changes: number[] = [];
+
+    // Leg at $25 net (100.1467); the rest of the bar stays short of max-profit (100.3467)
+    const bar = { time: 0, open: 100, high: 100.2, low: 99.95, close: 100.1, volume: 1 };
+    const update = await a.runExitLadder(p, [bar], undefined, (_, leg) => changes.push(leg!.pnl));
+
+    expect(update.shouldClose).toBe(false);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toBeCloseTo(12.5, 10);
+    expect(a.openPositions[0]).toMatchObject({ collateral: 250, initialCollateral: 500 });
+
+    // Journaled: a reload sees the leg
+    const b = ledger();
+    await b.load();
+    expect(b.state.balance).toBe(a.state.balance);
+    expect(b.openPositions[0]).toMatchObject({ collateral: 250, legs: a.openPositions[0].legs });
+  });
+});
+
+describe("corrupt ledger.json", () => {
+  /** Snapshots at seq 0, 3 and 6 → ledger.json (6), .1 (3), .2 (0); seq 7 in the journal */
+  async function history(): Promise<Ledger> {
+    const a = ledger();
+    await a.load();
+    for (let i = 1; i <= 7; i++) await a.adjustBalance(i, `adjust ${i}`);
+    return a;
+  }
+
+  test("restores from the newest valid backup and replays the journal after it", async () => {
+    const a = await history();
+    await writeFile(config.ledgerPath, "{ torn");
+    await writeFile(`${config.ledgerPath}.1`, JSON.stringify({ balance: "lots" }));
+
+    const b = ledger();
+    await b.load();
+    // .1 is invalid too: .2 (seq 0) plus archives 1-3, 4-6 and the journal
+    expect(b.state).toEqual(a.state);
+    expect((await readdir(dir)).some(f => f.startsWith("ledger.json.corrupt-"))).toBe(true);
+    // A fresh snapshot replaces the corrupt one
+    expect(JSON.parse(await readFile(config.ledgerPath, "utf-8")).seq).toBe(7);
+  });
+
+  test("throws LedgerCorruptError when no backup is valid", async () => {
+    await history();
+    await writeFile(config.ledgerPath, "{ torn");
+    for (let i = 1; i <= config.ledgerBackups; i++) await rm(`${config.ledgerPath}.${i}`, { force: true });
+    await writeFile(`${config.ledgerPath}.1`, "[]");
+
+    await expect(ledger().load()).rejects.toBeInstanceOf(LedgerCorruptError);
+    // Left in place for a human to look at
+    expect(await readFile(config.ledgerPath, "utf-8")).toBe("{ torn");
+  });
+
+  test("throws LedgerCorruptError without trying backups when set to refuse", async () => {
+    await history();
+    await writeFile(config.ledgerPath, "{ torn");
+    config.onCorruptLedger = "refuse";
+
+    await expect(ledger().load()).rejects.toBeInstanceOf(LedgerCorruptError);
+  });
+});
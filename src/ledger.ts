@@ -1,8 +1,22 @@
 // Simple ledger for tracking balance and positions
+// State only changes through journal events (src/journal.ts); ledger.json is a
+// periodic snapshot of the replayed state, tagged with the last applied seq.
+// Snapshots are written atomically with rotated backups; a corrupt snapshot is
+// restored from the newest valid backup (plus archived journal) or refuses to load.
 
-import { readFile, writeFile } from "fs/promises";
+import { readFile, rename } from "fs/promises";
 import { config } from "./config";
-import { Position, closePosition } from "./risk/recovery-manager";
+import { log, error } from "./logger";
+import { backupPaths, rotateBackups, writeFileAtomic } from "./storage";
+import {
+  ExitLeg, LIQUIDATED, Position, PositionUpdate, RecoveryEntry, StopMove, closePosition, exitLeg, updatePosition,
+} from "./risk/recovery-manager";
+import { liquidationPrice } from "./risk/liquidation";
+import { symbolOf } from "./symbols";
+import { OrderExecutor, createExecutor } from "./execution/executor";
+import { Journal, JournalEntry, LedgerEvent } from "./journal";
+import { metrics } from "./metrics";
+import type { Candle } from "./types";
 
 export interface LedgerState {
   balance: number;
@@ -15,12 +29,194 @@ export interface LedgerState {
   tradesThisHour: number;
   lastHourReset: number;
   pausedUntil?: number;
+  entriesPaused?: boolean;  // Operator pause — no new entries until resumed
+  briefGateOff?: boolean;   // Operator override — trade even when the brief says sit out
+  seq: number;              // Last journal entry applied (0 = none)
+}
+
+/** ledger.json (or the journal) failed validation — never silently replaced by defaults */
+export class LedgerCorruptError extends Error {
+  constructor(public path: string, public problems: string[]) {
+    super(`Ledger ${path} is corrupt: ${problems.join("; ")}`);
+    this.name = "LedgerCorruptError";
+  }
+}
+
+const STATE_NUMBERS = [
+  "balance", "initialBalance", "dailyStartBalance", "dailyPnl",
+  "consecutiveLosses", "lastReset", "tradesThisHour", "lastHourReset",
+] as const;
+
+const POSITION_NUMBERS = [
+  "entryPrice", "entryTime", "collateral", "leverage", "stopLoss", "takeProfit",
+] as const;
+
+/** Problems with a parsed ledger snapshot — empty if it is a usable LedgerState */
+export function validateLedgerState(raw: any): string[] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return ["not an object"];
+
+  const problems: string[] = [];
+  const isNum = (v: unknown) => typeof v === "number" && Number.isFinite(v);
+
+  for (const key of STATE_NUMBERS) {
+    if (!isNum(raw[key])) problems.push(`${key} is ${JSON.stringify(raw[key])}`);
+  }
+  if (raw.seq !== undefined && !Number.isInteger(raw.seq)) problems.push(`seq is ${JSON.stringify(raw.seq)}`);
+  if (raw.pausedUntil !== undefined && !isNum(raw.pausedUntil)) problems.push("pausedUntil is not a number");
+  for (const key of ["entriesPaused", "briefGateOff"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "boolean") problems.push(`${key} is not a boolean`);
+  }
+  if (!Array.isArray(raw.positions)) return [...problems, "positions is not an array"];
+
+  raw.positions.forEach((p: any, i: number) => {
+    const where = `positions[${i}]`;
+    if (!p || typeof p !== "object") return problems.push(`${where} is not an object`);
+    if (typeof p.id !== "string") problems.push(`${where}.id missing`);
+    if (p.side !== "Long" && p.side !== "Short") problems.push(`${where}.side is ${JSON.stringify(p.side)}`);
+    if (!["open", "recovery", "closed"].includes(p.status)) problems.push(`${where}.status is ${JSON.stringify(p.status)}`);
+    for (const key of POSITION_NUMBERS) {
+      if (!isNum(p[key])) problems.push(`${where}.${key} is ${JSON.stringify(p[key])}`);
+    }
+    if (p.status === "closed" && (!isNum(p.exitPrice) || !isNum(p.pnl))) {
+      problems.push(`${where} is closed without exitPrice/pnl`);
+    }
+  });
+
+  return problems;
+}
+
+/** Parse + validate a snapshot file's contents */
+function parseLedgerState(path: string, data: string): LedgerState {
+  let raw: any;
+  try {
+    raw = JSON.parse(data);
+  } catch (err) {
+    throw new LedgerCorruptError(path, [`invalid JSON (${err instanceof Error ? err.message : String(err)})`]);
+  }
+  const problems = validateLedgerState(raw);
+  if (problems.length > 0) throw new LedgerCorruptError(path, problems);
+  return { seq: 0, ...raw };
+}
+
+/**
+ * Apply one journal entry. Idempotent: entries at or below state.seq are
+ * already in the state and are skipped. Returns whether it was applied.
+ */
+export function applyEvent(state: LedgerState, entry: JournalEntry): boolean {
+  if (entry.seq <= state.seq) return false;
+
+  switch (entry.type) {
+    case "PositionOpened": {
+      if (entry.time - state.lastHourReset > 3600000) {
+        state.tradesThisHour = 0;
+        state.lastHourReset = entry.time;
+      }
+      state.positions.push(entry.position);
+      state.tradesThisHour++;
+      state.balance -= entry.position.collateral;
+      break;
+    }
+    case "PositionReduced": {
+      const position = state.positions.find(p => p.id === entry.positionId);
+      if (!position) break;
+      const { leg } = entry;
+      position.initialCollateral ??= position.collateral;
+      position.collateral -= leg.collateral;
+      // Rounded so the remainder doesn't carry float dust (0.009 − 0.004 = 0.004999…)
+      if (position.quantity !== undefined && leg.quantity !== undefined) {
+        position.quantity = parseFloat((position.quantity - leg.quantity).toFixed(12));
+      }
+      position.legs = [...(position.legs ?? []), leg];
+      position.realizedPnl = (position.realizedPnl ?? 0) + leg.pnl;
+      state.balance += leg.collateral + leg.pnl;
+      state.dailyPnl += leg.pnl;
+      break;
+    }
+    case "PositionClosed": {
+      const closed = entry.position;
+      const idx = state.positions.findIndex(p => p.id === closed.id);
+      if (idx === -1) state.positions.push(closed);
+      else state.positions[idx] = closed;
+
+      // Partial exits already booked their share; the loss streak counts the whole trade
+      const pnl = closed.pnl || 0;
+      const remainderPnl = pnl - (closed.realizedPnl ?? 0);
+      state.balance += closed.collateral + remainderPnl;
+      state.dailyPnl += remainderPnl;
+      state.consecutiveLosses = pnl < 0 ? state.consecutiveLosses + 1 : 0;
+      break;
+    }
+    case "StopMoved": {
+      const position = state.positions.find(p => p.id === entry.positionId);
+      if (position) {
+        position.stopLoss = entry.to;
+        position.stopMode = entry.reason;
+      }
+      break;
+    }
+    case "RecoveryEntered": {
+      const position = state.positions.find(p => p.id === entry.positionId);
+      if (position && position.status !== "closed") {
+        position.status = "recovery";
+        position.stopLoss = entry.stopLoss;
+        position.recoveryTime = entry.recoveryTime;
+        position.stopOutPnl = entry.stopOutPnl;
+      }
+      break;
+    }
+    case "DailyReset":
+      state.dailyStartBalance = state.balance;
+      state.dailyPnl = 0;
+      state.consecutiveLosses = 0;
+      state.lastReset = entry.time;
+      break;
+    case "Paused":
+      state.pausedUntil = entry.until;
+      break;
+    case "BalanceAdjusted":
+      state.balance += entry.amount;
+      break;
+    case "EntriesPaused":
+      state.entriesPaused = true;
+      break;
+    case "EntriesResumed":
+      state.entriesPaused = false;
+      break;
+    case "PauseCleared":
+      state.pausedUntil = undefined;
+      state.consecutiveLosses = 0;
+      break;
+    case "BriefGateSet":
+      state.briefGateOff = !entry.enabled;
+      break;
+  }
+
+  state.seq = entry.seq;
+  return true;
+}
+
+export interface LedgerOptions {
+  /** Time source — the backtester passes a simulated clock */
+  clock?: () => number;
+  /** Journal every change and snapshot to config.ledgerPath (off for backtests) */
+  persist?: boolean;
+  /** Where orders go — defaults to paper or live per config.tradingMode */
+  executor?: OrderExecutor;
 }
 
 export class Ledger {
   state: LedgerState;
+  private clock: () => number;
+  private persist: boolean;
+  private executor: OrderExecutor;
+  private journal = new Journal(config.journal.path);
+  private eventsSinceSnapshot = 0;
+  private restored = false;       // Loaded from a backup — rewrite the snapshot after replay
   
-  constructor() {
+  constructor(options: LedgerOptions = {}) {
+    this.clock = options.clock ?? Date.now;
+    this.persist = options.persist ?? true;
+    this.executor = options.executor ?? createExecutor();
     this.state = {
       balance: config.risk.initialBalance,
       initialBalance: config.risk.initialBalance,
@@ -28,27 +224,119 @@ export class Ledger {
       dailyPnl: 0,
       consecutiveLosses: 0,
       positions: [],
-      lastReset: Date.now(),
+      lastReset: this.clock(),
       tradesThisHour: 0,
-      lastHourReset: Date.now(),
+      lastHourReset: this.clock(),
+      seq: 0,
     };
   }
   
+  /**
+   * Snapshot (if any) + replay of every journal entry after it.
+   * Throws LedgerCorruptError instead of starting over from the default balance.
+   */
   async load() {
+    const snapshot = await this.loadSnapshot();
+    if (snapshot) this.state = snapshot;
+    
+    let entries: JournalEntry[];
     try {
-      const data = await readFile(config.ledgerPath, "utf-8");
-      this.state = JSON.parse(data);
+      entries = await this.journal.readSince(this.state.seq);
     } catch (err) {
-      // File doesn't exist yet, use defaults
-      await this.save();
+      throw new LedgerCorruptError(config.journal.path, [err instanceof Error ? err.message : String(err)]);
+    }
+    
+    let replayed = 0;
+    for (const entry of entries) {
+      if (entry.seq > this.state.seq + 1) {
+        log(`⚠️  Journal gap: expected seq ${this.state.seq + 1}, found ${entry.seq}`);
+      }
+      if (applyEvent(this.state, entry)) replayed++;
+    }
+    this.eventsSinceSnapshot = replayed;
+    if (replayed > 0) log(`📒 Replayed ${replayed} journal events (seq ${this.state.seq})`);
+    
+    if (!snapshot || this.restored) await this.save();
+  }
+  
+  /** null = no snapshot yet (fresh ledger); corrupt = restore from backup or throw */
+  private async loadSnapshot(): Promise<LedgerState | null> {
+    const path = config.ledgerPath;
+    let data: string;
+    try {
+      data = await readFile(path, "utf-8");
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+    
+    try {
+      return parseLedgerState(path, data);
+    } catch (err) {
+      if (!(err instanceof LedgerCorruptError)) throw err;
+      error(`🚨 ${err.message}`);
+      if (config.onCorruptLedger !== "restore") throw err;
+      
+      for (const backup of backupPaths(path, config.ledgerBackups)) {
+        let state: LedgerState;
+        try {
+          state = parseLedgerState(backup, await readFile(backup, "utf-8"));
+        } catch {
+          continue;
+        }
+        // Keep the corrupt file for inspection; the next save() writes a fresh snapshot
+        const aside = `${path}.corrupt-${Date.now()}`;
+        await rename(path, aside);
+        log(`♻️  Restored ledger from ${backup} (seq ${state.seq}, balance $${state.balance.toFixed(2)}), corrupt file kept as ${aside}`);
+        this.restored = true;
+        return state;
+      }
+      
+      error(`🚨 No valid backup of ${path} — refusing to start. Fix or remove it by hand.`);
+      throw err;
     }
   }
   
+  /**
+   * Write the ledger.json snapshot (atomic, previous one kept as a backup), then archive the
+   * journal it covers and prune archives older than every snapshot that might be restored.
+   */
   async save() {
-    await writeFile(
+    if (!this.persist) return;
+    await rotateBackups(config.ledgerPath, config.ledgerBackups);
+    await writeFileAtomic(
       config.ledgerPath,
       JSON.stringify(this.state, null, 2)
     );
+    await this.journal.rotate();
+    await this.journal.prune(await this.oldestSnapshotSeq());
+    this.eventsSinceSnapshot = 0;
+    this.restored = false;
+  }
+  
+  /** Lowest seq among the snapshot and its valid backups — a restore replays from there */
+  private async oldestSnapshotSeq(): Promise<number> {
+    let oldest = this.state.seq;
+    for (const backup of backupPaths(config.ledgerPath, config.ledgerBackups)) {
+      try {
+        oldest = Math.min(oldest, parseLedgerState(backup, await readFile(backup, "utf-8")).seq);
+      } catch {
+        // Missing or corrupt: a restore would skip it too
+      }
+    }
+    return oldest;
+  }
+  
+  /** The only way state changes: append to the journal (O(1)), then apply */
+  private async record(event: LedgerEvent) {
+    const entry: JournalEntry = { ...event, seq: this.state.seq + 1, time: this.clock() };
+    if (this.persist) await this.journal.append(entry);
+    applyEvent(this.state, entry);
+    
+    this.eventsSinceSnapshot++;
+    if (this.eventsSinceSnapshot >= config.journal.snapshotEvery) {
+      await this.save();
+    }
   }
   
   get openPositions(): Position[] {
@@ -59,30 +347,52 @@ export class Ledger {
     return this.state.positions.filter(p => p.status === "closed");
   }
   
+  /** Free cash — collateral already left state.balance when its position opened */
   get availableBalance(): number {
-    const inPositions = this.openPositions.reduce(
-      (sum, p) => sum + p.collateral,
-      0
-    );
-    return this.state.balance - inPositions;
+    return this.state.balance;
   }
   
-  canOpenPosition(): { allowed: boolean; reason?: string } {
+  /** Limits are global except the per-symbol position cap; collateral is what the new entry would lock up */
+  canOpenPosition(
+    symbol: string = config.symbol,
+    collateral: number = config.risk.positionSizeDollars
+  ): { allowed: boolean; reason?: string } {
+    // Operator pause (control API) — holds until resumed
+    if (this.state.entriesPaused) {
+      return { allowed: false, reason: "Entries paused by operator" };
+    }
+    
     // Check if paused
-    if (this.state.pausedUntil && Date.now() < this.state.pausedUntil) {
+    if (this.state.pausedUntil && this.clock() < this.state.pausedUntil) {
       return {
         allowed: false,
         reason: `Paused until ${new Date(this.state.pausedUntil).toLocaleTimeString()}`,
       };
     }
     
-    // Check max positions
-    if (this.openPositions.length >= config.futures.maxPositions) {
+    // Check max positions (all symbols, then this one)
+    const open = this.openPositions;
+    if (open.length >= config.futures.maxPositions) {
       return {
         allowed: false,
         reason: `Max ${config.futures.maxPositions} positions open`,
       };
     }
+    if (open.filter(p => symbolOf(p) === symbol).length >= config.futures.maxPositionsPerSymbol) {
+      return {
+        allowed: false,
+        reason: `Max ${config.futures.maxPositionsPerSymbol} ${symbol} position${config.futures.maxPositionsPerSymbol === 1 ? "" : "s"} open`,
+      };
+    }
+    
+    // Check total margin across symbols
+    const margin = open.reduce((sum, p) => sum + p.collateral, 0);
+    if (margin + collateral > config.risk.maxTotalMarginDollars) {
+      return {
+        allowed: false,
+        reason: `Margin cap: $${margin.toFixed(2)} in use + $${collateral.toFixed(2)} > $${config.risk.maxTotalMarginDollars}`,
+      };
+    }
     
     // Check daily loss limit
     if (this.state.dailyPnl <= -config.risk.maxDailyLossDollars) {
@@ -92,23 +402,19 @@ export class Ledger {
       };
     }
     
-    // Check trades per hour
-    const now = Date.now();
-    if (now - this.state.lastHourReset > 3600000) {
-      // Reset hourly counter
-      this.state.tradesThisHour = 0;
-      this.state.lastHourReset = now;
-    }
+    // Check trades per hour (the counter itself rolls over on the next PositionOpened)
+    const now = this.clock();
+    const tradesThisHour = now - this.state.lastHourReset > 3600000 ? 0 : this.state.tradesThisHour;
     
-    if (this.state.tradesThisHour >= config.risk.maxTradesPerHour) {
+    if (tradesThisHour >= config.risk.maxTradesPerHour) {
       return {
         allowed: false,
         reason: `Max ${config.risk.maxTradesPerHour} trades/hour reached`,
       };
     }
     
-    // Check available balance
-    if (this.availableBalance < config.risk.riskPerTrade) {
+    // Check available balance covers the entry's collateral
+    if (this.availableBalance < collateral) {
       return {
         allowed: false,
         reason: `Insufficient balance ($${this.availableBalance.toFixed(2)})`,
@@ -118,11 +424,14 @@ export class Ledger {
     return { allowed: true };
   }
   
-  async openPosition(position: Position) {
-    this.state.positions.push(position);
-    this.state.tradesThisHour++;
-    this.state.balance -= position.collateral;
-    await this.save();
+  async openPosition(position: Position): Promise<Position> {
+    // Live mode: throws if the entry order fails, so nothing is booked
+    const filled = await this.executor.open({ ...position, entrySignalPrice: position.entryPrice });
+    // From the real fill and margin — the exchange computes it the same way
+    filled.liquidationPrice = liquidationPrice(filled);
+    await this.record({ type: "PositionOpened", position: filled });
+    metrics.tradesOpened.inc({ symbol: symbolOf(filled), side: filled.side });
+    return filled;
   }
   
   async closePosition(positionId: string, exitPrice: number, reason: string) {
@@ -130,33 +439,123 @@ export class Ledger {
     if (idx === -1) return;
     
     const position = this.state.positions[idx];
-    const closed = closePosition(position, exitPrice, reason);
-    
-    this.state.positions[idx] = closed;
-    this.state.balance += closed.collateral + (closed.pnl || 0);
-    this.state.dailyPnl += closed.pnl || 0;
+    // Live mode: throws if the exit order fails, position stays open for the next scan.
+    // A simulated liquidation has no order to send; a live position always goes to the exchange.
+    const fill = reason === LIQUIDATED && position.venue === undefined
+      ? { price: exitPrice }
+      : await this.executor.close(position, exitPrice, reason);
+    const closed = closePosition(position, fill.price, reason, this.clock());
+    closed.exitSignalPrice = exitPrice;
+    if (fill.orderId) closed.exitOrderId = fill.orderId;
+    const finalLeg = closed.legs?.[closed.legs.length - 1];
+    if (finalLeg) Object.assign(finalLeg, { signalPrice: exitPrice, orderId: fill.orderId });
+    await this.record({ type: "PositionClosed", position: closed });
+    metrics.tradesClosed.inc({ symbol: symbolOf(closed), reason });
     
-    // Track consecutive losses
-    if ((closed.pnl || 0) < 0) {
-      this.state.consecutiveLosses++;
-      
-      // Pause if hit consecutive loss limit
-      if (this.state.consecutiveLosses >= config.risk.maxConsecutiveLosses) {
-        this.state.pausedUntil = Date.now() + (config.risk.pauseAfterLossesMinutes * 60 * 1000);
-      }
-    } else {
-      this.state.consecutiveLosses = 0;
+    // Pause if hit consecutive loss limit (the close above already counted this loss)
+    if ((closed.pnl || 0) < 0 && this.state.consecutiveLosses >= config.risk.maxConsecutiveLosses) {
+      await this.record({
+        type: "Paused",
+        until: this.clock() + (config.risk.pauseAfterLossesMinutes * 60 * 1000),
+        reason: `${this.state.consecutiveLosses} consecutive losses`,
+      });
     }
     
-    await this.save();
     return closed;
   }
   
-  resetDaily() {
-    this.state.dailyStartBalance = this.state.balance;
-    this.state.dailyPnl = 0;
-    this.state.consecutiveLosses = 0;
-    this.state.lastReset = Date.now();
+  /**
+   * Scale-out leg: exit `fraction` of the initial size, releasing its margin and booking its P&L.
+   * A leg that would leave nothing open closes the position instead. Returns the booked leg.
+   */
+  async reducePosition(positionId: string, fraction: number, exitPrice: number, reason: string) {
+    const position = this.state.positions.find(p => p.id === positionId && p.status !== "closed");
+    if (!position) return;
+    
+    const collateral = (position.initialCollateral ?? position.collateral) * fraction;
+    if (collateral >= position.collateral * 0.999) {
+      const closed = await this.closePosition(positionId, exitPrice, reason);
+      return closed?.legs?.[closed.legs.length - 1];
+    }
+    
+    // Live mode: throws if the order fails, nothing is booked
+    const fill = await this.executor.reduce(position, collateral / position.collateral, exitPrice, reason);
+    // Live: lot rounding decides the real share
+    const released = fill.quantity !== undefined && position.quantity
+      ? position.collateral * (fill.quantity / position.quantity)
+      : collateral;
+    const leg = exitLeg(position, released, fill.price, reason, this.clock());
+    leg.signalPrice = exitPrice;
+    if (fill.orderId) leg.orderId = fill.orderId;
+    if (fill.quantity !== undefined) leg.quantity = fill.quantity;
+    await this.record({ type: "PositionReduced", positionId, leg });
+    metrics.partialExits.inc({ symbol: symbolOf(position), reason });
+    return leg;
+  }
+  
+  /** Journal a stop the exit ladder ratcheted (updatePosition already moved it in memory) */
+  async moveStop(positionId: string, move: StopMove) {
+    if (!this.state.positions.some(p => p.id === positionId && p.status !== "closed")) return;
+    await this.record({ type: "StopMoved", positionId, ...move });
+    metrics.stopsMoved.inc({ reason: move.reason });
+  }
+  
+  /** Journal the switch to recovery (updatePosition already made it in memory) */
+  async enterRecovery(positionId: string, recovery: RecoveryEntry) {
+    if (!this.state.positions.some(p => p.id === positionId && p.status !== "closed")) return;
+    await this.record({ type: "RecoveryEntered", positionId, ...recovery });
+  }
+  
+  /**
+   * Run the exit ladder over `bars` and journal what it changes on the position: a ratcheted
+   * stop, recovery, scale-out legs (the rest of a leg's bar runs once the leg is booked).
+   * `onChange` sees each journaled change, for logging. Returns the last update — closing the
+   * position on shouldClose is the caller's, since each caller reports it differently.
+   */
+  async runExitLadder(
+    position: Position,
+    bars: Candle[],
+    overrideMaxSeconds?: number,
+    onChange?: (update: PositionUpdate, leg?: ExitLeg) => void
+  ): Promise<PositionUpdate> {
+    let update = updatePosition(position, bars, overrideMaxSeconds, this.clock());
+    for (;;) {
+      if (update.stopMoved) await this.moveStop(position.id, update.stopMoved);
+      if (update.recovery) await this.enterRecovery(position.id, update.recovery);
+      const reduce = update.reduce;
+      const leg = reduce && await this.reducePosition(position.id, reduce.fraction, reduce.exitPrice, reduce.reason);
+      if (update.stopMoved || update.recovery || reduce) onChange?.(update, leg);
+      
+      if (!reduce || !update.rest || !this.openPositions.some(p => p.id === position.id)) return update;
+      update = updatePosition(position, update.rest, overrideMaxSeconds, this.clock());
+    }
+  }
+  
+  async resetDaily() {
+    await this.record({ type: "DailyReset" });
+  }
+  
+  /** Operator controls — journaled so they survive restarts */
+  async pauseEntries(reason: string) {
+    await this.record({ type: "EntriesPaused", reason });
+  }
+  
+  async resumeEntries(reason: string) {
+    await this.record({ type: "EntriesResumed", reason });
+  }
+  
+  /** Lift a consecutive-loss pause early and reset the loss streak */
+  async clearPause(reason: string) {
+    await this.record({ type: "PauseCleared", reason });
+  }
+  
+  async setBriefGate(enabled: boolean, reason: string) {
+    await this.record({ type: "BriefGateSet", enabled, reason });
+  }
+  
+  /** Deposits, withdrawals and manual corrections — journaled like any trade */
+  async adjustBalance(amount: number, reason: string) {
+    await this.record({ type: "BalanceAdjusted", amount, reason });
   }
   
   get stats() {
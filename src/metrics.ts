@@ -0,0 +1,166 @@
+// Metrics - Prometheus text exposition for /metrics, no client library
+// Counters and histograms are bumped where things happen; ledger gauges are
+// refreshed from the live state at scrape time.
+//
+//   GET /metrics        text/plain; version=0.0.4
+
+import { config } from "./config";
+import { symbolOf } from "./symbols";
+import type { ApiHandler } from "./api";
+import type { Ledger } from "./ledger";
+
+type Labels = Record<string, string>;
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function labelKey(labels: Labels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return "";
+  return "{" + entries.map(([k, v]) => `${k}="${v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`).join(",") + "}";
+}
+
+function withLabel(key: string, extra: string): string {
+  return key ? key.slice(0, -1) + "," + extra + "}" : "{" + extra + "}";
+}
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(private name: string, private help: string) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, by = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + by);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [key, value] of this.values) lines.push(`${this.name}${key} ${value}`);
+    return lines;
+  }
+}
+
+export class Gauge implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(private name: string, private help: string) {
+    registry.push(this);
+  }
+
+  set(value: number, labels: Labels = {}) {
+    this.values.set(labelKey(labels), value);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    for (const [key, value] of this.values) lines.push(`${this.name}${key} ${value}`);
+    return lines;
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private buckets: number[] = LATENCY_BUCKETS) {
+    registry.push(this);
+  }
+
+  observe(value: number, labels: Labels = {}) {
+    const key = labelKey(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.buckets.forEach((b, i) => { if (value <= b) s!.counts[i]++; });
+    s.sum += value;
+    s.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, s] of this.series) {
+      this.buckets.forEach((b, i) => lines.push(`${this.name}_bucket${withLabel(key, `le="${b}"`)} ${s.counts[i]}`));
+      lines.push(`${this.name}_bucket${withLabel(key, `le="+Inf"`)} ${s.count}`);
+      lines.push(`${this.name}_sum${key} ${s.sum}`);
+      lines.push(`${this.name}_count${key} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+export const metrics = {
+  scans: new Counter("scalper_scans_total", "Market scans run"),
+  signalsDetected: new Counter("scalper_signals_detected_total", "Momentum signals that passed every rule"),
+  signalsRejected: new Counter("scalper_signals_rejected_total", "Scans turned down, by the rule that failed"),
+  tradesOpened: new Counter("scalper_trades_opened_total", "Positions opened, by symbol and side"),
+  tradesClosed: new Counter("scalper_trades_closed_total", "Positions closed, by symbol and exit reason"),
+  partialExits: new Counter("scalper_partial_exits_total", "Scale-out legs filled, by symbol and reason"),
+  stopsMoved: new Counter("scalper_stops_moved_total", "Stop ratchets journaled, by breakeven/trailing"),
+  requestSeconds: new Histogram("scalper_http_request_duration_seconds", "Outbound HTTP request latency"),
+  requestErrors: new Counter("scalper_http_errors_total", "Outbound HTTP requests that failed or returned non-2xx"),
+  balance: new Gauge("scalper_balance_dollars", "Ledger balance"),
+  dailyPnl: new Gauge("scalper_daily_pnl_dollars", "Net P&L since the daily reset"),
+  consecutiveLosses: new Gauge("scalper_consecutive_losses", "Current losing streak"),
+  openPositions: new Gauge("scalper_open_positions", "Open positions, by symbol"),
+  briefAge: new Gauge("scalper_brief_age_seconds", "Age of the cached market brief (-1 = none)"),
+};
+
+/**
+ * fetch() with latency and error accounting under `target` (binance, github, …).
+ * The endpoint label is the URL path, so keep query strings out of it.
+ */
+export async function timedFetch(target: string, url: string, init?: RequestInit): Promise<Response> {
+  const endpoint = new URL(url).pathname;
+  const start = performance.now();
+  try {
+    const response = await fetch(url, init);
+    if (!response.ok) metrics.requestErrors.inc({ target, endpoint, kind: "http" });
+    return response;
+  } catch (err) {
+    metrics.requestErrors.inc({ target, endpoint, kind: "network" });
+    throw err;
+  } finally {
+    metrics.requestSeconds.observe((performance.now() - start) / 1000, { target, endpoint });
+  }
+}
+
+export function renderMetrics(): string {
+  return registry.flatMap(m => m.render()).join("\n") + "\n";
+}
+
+export interface MetricsContext {
+  ledger: Ledger;
+  /** Timestamp of the cached market brief, null if there isn't one */
+  briefTime: () => number | null;
+}
+
+/** Routes /metrics; returns null for anything else so the caller can serve it */
+export function createMetrics(ctx: MetricsContext): ApiHandler {
+  return (req, url) => {
+    if (url.pathname !== "/metrics") return null;
+    if (req.method !== "GET") return new Response("method not allowed", { status: 405 });
+
+    const { ledger } = ctx;
+    metrics.balance.set(ledger.state.balance);
+    metrics.dailyPnl.set(ledger.state.dailyPnl);
+    metrics.consecutiveLosses.set(ledger.state.consecutiveLosses);
+    for (const symbol of new Set([...config.symbols, ...ledger.openPositions.map(symbolOf)])) {
+      metrics.openPositions.set(ledger.openPositions.filter(p => symbolOf(p) === symbol).length, { symbol });
+    }
+    const briefTime = ctx.briefTime();
+    metrics.briefAge.set(briefTime === null ? -1 : (Date.now() - briefTime) / 1000);
+
+    return new Response(renderMetrics(), {
+      headers: { "Content-Type": "text/plain; version=0.0.4" },
+    });
+  };
+}
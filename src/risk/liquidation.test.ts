@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { checkLiquidation, liquidationPriceFor, maintenanceTier } from "./liquidation";
+import { LIQUIDATED, closePosition, createPosition, updatePosition } from "./recovery-manager";
+
+// BTCUSDT brackets (config.liquidation.tiers): under $50k 125x / 0.4% / cum 0, from $50k 100x / 0.5% / cum 50
+
+describe("liquidationPriceFor", () => {
+  test("long in the first bracket: $500 × 75x at 60,000", () => {
+    // Q = 0.625 BTC: (37,500 − 500 − 0) / (0.625 × 0.996)
+    const price = liquidationPriceFor("BTCUSDT", "Long", 60_000, 500, 75);
+    expect(price).toBeCloseTo(37_000 / 0.6225, 6);
+    // There, margin + P&L is exactly the maintenance margin
+    expect(500 + 0.625 * (price - 60_000)).toBeCloseTo(0.625 * price * 0.004, 6);
+  });
+
+  test("short in the first bracket", () => {
+    // (37,500 + 500 + 0) / (0.625 × 1.004)
+    expect(liquidationPriceFor("BTCUSDT", "Short", 60_000, 500, 75)).toBeCloseTo(38_000 / 0.6275, 6);
+  });
+
+  test("long in the second bracket takes its rate and maintenance amount", () => {
+    // $1,000 × 75x = $75,000, Q = 1.25: (75,000 − 1,000 − 50) / (1.25 × 0.995)
+    expect(maintenanceTier("BTCUSDT", 75_000)).toMatchObject({ maintenanceMarginRate: 0.005, maintenanceAmount: 50 });
+    expect(liquidationPriceFor("BTCUSDT", "Long", 60_000, 1000, 75)).toBeCloseTo(73_950 / 1.24375, 6);
+  });
+});
+
+describe("checkLiquidation", () => {
+  test("refuses leverage over the bracket cap", () => {
+    // $300 × 150x = $45,000: first bracket, capped at 125x
+    const check = checkLiquidation("BTCUSDT", "Long", 60_000, 300, 150, 0.15);
+    expect(check.allowed).toBe(false);
+    expect(check.reason).toContain("125x bracket cap");
+    // $600 × 120x = $72,000: the second bracket's 100x cap applies
+    expect(checkLiquidation("BTCUSDT", "Long", 60_000, 600, 120, 0.15).reason).toContain("100x bracket cap");
+  });
+
+  test("refuses a stop that isn't minBufferPercent inside liquidation", () => {
+    // Liquidation is 0.937% away at 75x: a 0.8% stop leaves less than the 0.25% buffer
+    expect(checkLiquidation("BTCUSDT", "Long", 60_000, 500, 75, 0.15).allowed).toBe(true);
+    const check = checkLiquidation("BTCUSDT", "Long", 60_000, 500, 75, 0.8);
+    expect(check.allowed).toBe(false);
+    expect(check.liquidationPercent).toBeCloseTo((60_000 - 37_000 / 0.6225) / 600, 6);
+  });
+});
+
+describe("liquidated exit", () => {
+  test("a gap through liquidation loses the margin plus the clearance fee", () => {
+    const position = createPosition("Long", 60_000, 500, 0, undefined, 75);
+    position.liquidationPrice = liquidationPriceFor("BTCUSDT", "Long", 60_000, 500, 75);
+    const update = updatePosition(position, [{ time: 0, open: 59_000, high: 59_100, low: 58_900, close: 59_000, volume: 1 }], undefined, 0);
+    expect(update).toEqual({ shouldClose: true, reason: LIQUIDATED, exitPrice: position.liquidationPrice });
+
+    // −$500 margin, $15 entry fee, 0.5% × $37,500 clearance fee
+    const closed = closePosition(position, update.exitPrice!, LIQUIDATED, 0);
+    expect(closed.grossPnl).toBe(-500);
+    expect(closed.fees).toBeCloseTo(15 + 187.5, 10);
+    expect(closed.pnl).toBeCloseTo(-702.5, 10);
+  });
+});
@@ -0,0 +1,80 @@
+// Liquidation - isolated-margin liquidation price from Binance's maintenance margin brackets
+// The exchange liquidates once margin + P&L falls to the maintenance margin of the bracket the
+// notional sits in (notional × rate − cum). Solving that for price, one-way mode, one position:
+//   Long:  (Q×entry − margin − cum) / (Q × (1 − rate))
+//   Short: (Q×entry + margin + cum) / (Q × (1 + rate))
+// The bot's stop is a market exit it sends itself, so only a gap through the stop can reach
+// this price — updatePosition books that as "liquidated".
+
+import { config, MaintenanceTier } from "../config";
+import { symbolOf } from "../symbols";
+import type { Position } from "./recovery-manager";
+
+/** The bracket a position of `notional` falls in — unlisted symbols use the "default" table */
+export function maintenanceTier(symbol: string, notional: number): MaintenanceTier {
+  const tiers = config.liquidation.tiers[symbol] ?? config.liquidation.tiers.default;
+  return tiers.filter(t => notional >= t.notionalFloor).pop() ?? tiers[0];
+}
+
+export function liquidationPriceFor(
+  symbol: string,
+  side: "Long" | "Short",
+  entryPrice: number,
+  collateral: number,
+  leverage: number
+): number {
+  const notional = collateral * leverage;
+  const quantity = notional / entryPrice;
+  const { maintenanceMarginRate: rate, maintenanceAmount: cum } = maintenanceTier(symbol, notional);
+  return side === "Long"
+    ? (notional - collateral - cum) / (quantity * (1 - rate))
+    : (notional + collateral + cum) / (quantity * (1 + rate));
+}
+
+export function liquidationPrice(position: Position): number {
+  return liquidationPriceFor(symbolOf(position), position.side, position.entryPrice, position.collateral, position.leverage);
+}
+
+/** Adverse move from entry to liquidation, in % */
+export function liquidationDistancePercent(side: "Long" | "Short", entryPrice: number, liquidation: number): number {
+  return (side === "Long" ? entryPrice - liquidation : liquidation - entryPrice) / entryPrice * 100;
+}
+
+export interface LiquidationCheck {
+  allowed: boolean;
+  reason?: string;
+  liquidationPrice: number;
+  liquidationPercent: number;
+}
+
+/**
+ * Would an entry survive its own stop? Refused when the leverage is over the bracket's cap,
+ * or the stop (`lossPercent` from entry) isn't at least minBufferPercent inside liquidation.
+ */
+export function checkLiquidation(
+  symbol: string,
+  side: "Long" | "Short",
+  entryPrice: number,
+  collateral: number,
+  leverage: number,
+  lossPercent: number
+): LiquidationCheck {
+  const notional = collateral * leverage;
+  const tier = maintenanceTier(symbol, notional);
+  const price = liquidationPriceFor(symbol, side, entryPrice, collateral, leverage);
+  const distance = liquidationDistancePercent(side, entryPrice, price);
+  const result = { allowed: true, liquidationPrice: price, liquidationPercent: distance };
+
+  if (leverage > tier.maxLeverage) {
+    return { ...result, allowed: false, reason: `${leverage}x is over the ${tier.maxLeverage}x bracket cap for $${notional.toFixed(0)} ${symbol}` };
+  }
+  const buffer = config.liquidation.minBufferPercent;
+  if (lossPercent + buffer > distance) {
+    return {
+      ...result,
+      allowed: false,
+      reason: `Stop ${lossPercent.toFixed(3)}% too close to liquidation at ${distance.toFixed(3)}% (needs ${buffer}% buffer)`,
+    };
+  }
+  return result;
+}
@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { config } from "../config";
+import type { Candle } from "../types";
+import { Position, closePosition, createPosition, exitLeg, updatePosition } from "./recovery-manager";
+
+// $500 × 75x = $37,500 at $100, taker 0.04% → $30 round-trip fees.
+// Stop 0.15% → 99.85; take-profit at $25 net → 100.14667; max-profit at $100 net → 100.34667.
+const saved = {
+  strategy: { ...config.strategy },
+  stopManagement: { ...config.stopManagement },
+  scaleOut: { legs: config.scaleOut.legs },
+  fees: { ...config.fees },
+};
+
+beforeEach(() => {
+  Object.assign(config.fees, { takerFeePercent: 0.04, feeMode: "taker" });
+  Object.assign(config.strategy, {
+    initialStopPercent: 0.15, minProfitDollars: 25, maxProfitDollars: 100,
+    recoveryMode: false, recoveryStopPercent: 0.04, recoveryTimeSeconds: 90,
+  });
+  config.stopManagement.enabled = false;
+  config.scaleOut.legs = [];
+});
+
+afterEach(() => {
+  Object.assign(config.strategy, saved.strategy);
+  Object.assign(config.stopManagement, saved.stopManagement);
+  config.scaleOut.legs = saved.scaleOut.legs;
+  Object.assign(config.fees, saved.fees);
+});
+
+function bar(open: number, high: number, low: number, close: number = open): Candle {
+  return { time: 0, open, high, low, close, volume: 1 };
+}
+
+/** Entry at time 0; updates at `now` 0 so no time exit can fire */
+function position(side: "Long" | "Short" = "Long"): Position {
+  return createPosition(side, 100, 500, 0, undefined, 75);
+}
+
+const update = (p: Position, bars: Candle[], now = 0) => updatePosition(p, bars, undefined, now);
+
+describe("price exits", () => {
+  test("a bar spanning stop and target counts as a stop-out at the stop", () => {
+    const u = update(position(), [bar(100, 100.2, 99.8)]);
+    expect(u).toMatchObject({ shouldClose: true, reason: "stop-loss" });
+    expect(u.exitPrice).toBeCloseTo(99.85, 10);
+  });
+
+  test("a short's stop is above entry", () => {
+    const u = update(position("Short"), [bar(100, 100.2, 99.8)]);
+    expect(u).toMatchObject({ shouldClose: true, reason: "stop-loss" });
+    expect(u.exitPrice).toBeCloseTo(100.15, 10);
+  });
+
+  test("a gap through the stop fills at the bar open", () => {
+    expect(update(position(), [bar(99.5, 99.6, 99.4)]))
+      .toEqual({ shouldClose: true, reason: "stop-loss", exitPrice: 99.5 });
+  });
+
+  test("a gap through the target fills at the bar open, past max-profit as max-profit", () => {
+    expect(update(position(), [bar(100.2, 100.25, 100.18)]))
+      .toEqual({ shouldClose: true, reason: "take-profit", exitPrice: 100.2 });
+    expect(update(position(), [bar(100.5, 100.6, 100.4)]))
+      .toEqual({ shouldClose: true, reason: "max-profit", exitPrice: 100.5 });
+  });
+
+  test("bars are walked in order — the first level reached wins", () => {
+    const u = update(position(), [bar(100, 100.2, 99.95), bar(100.1, 100.1, 99.5)]);
+    expect(u).toMatchObject({ shouldClose: true, reason: "take-profit" });
+    expect(u.exitPrice).toBeCloseTo(100 * (1 + 55 / 37_500), 10);
+  });
+});
+
+describe("stop ratchet", () => {
+  const breakeven = 100 * (1 + 30 / 37_500);   // Nets $0 after round-trip fees
+
+  beforeEach(() => {
+    Object.assign(config.stopManagement, {
+      enabled: true, breakevenAfterDollars: 20, breakevenLockDollars: 0,
+      trailMode: "percent", trailAfterDollars: 40, trailPercent: 0.10, minStepPercent: 0.02,
+    });
+  });
+
+  /** Targets out of the way so only the stop can close */
+  function runner(): Position {
+    return { ...position(), minProfitTarget: 1000, maxProfitTarget: 1000 };
+  }
+
+  test("moves to fee-adjusted breakeven once the best net reaches breakevenAfterDollars", () => {
+    const p = runner();
+    // High 100.14: $52.50 gross − $30 fees = $22.50 net
+    const u = update(p, [bar(100, 100.14, 99.99, 100.1)]);
+    expect(u.shouldClose).toBe(false);
+    expect(u.stopMoved).toMatchObject({ reason: "breakeven" });
+    expect(u.stopMoved!.from).toBeCloseTo(99.85, 10);
+    expect(u.stopMoved!.to).toBeCloseTo(breakeven, 10);
+    expect(p.stopMode).toBe("breakeven");
+
+    expect(update(p, [bar(100.1, 100.1, 100)])).toMatchObject({ shouldClose: true, reason: "breakeven-stop" });
+  });
+
+  test("trails the best price past trailAfterDollars, from the next bar on", () => {
+    const p = runner();
+    // High 100.3 ($82.50 net): trail 0.10% behind → 100.1997, not hit by this bar's low
+    const u = update(p, [bar(100, 100.3, 100.15)]);
+    expect(u.shouldClose).toBe(false);
+    expect(u.stopMoved).toMatchObject({ reason: "trailing" });
+    expect(p.stopLoss).toBeCloseTo(100.3 * 0.999, 10);
+
+    // A lower high never loosens it
+    expect(update(p, [bar(100.25, 100.25, 100.21)]).stopMoved).toBeUndefined();
+
+    const exit = update(p, [bar(100.22, 100.22, 100.1)]);
+    expect(exit).toMatchObject({ shouldClose: true, reason: "trailing-stop" });
+    expect(exit.exitPrice).toBeCloseTo(100.3 * 0.999, 10);
+  });
+
+  test("stays put while the trade hasn't earned it", () => {
+    const p = runner();
+    expect(update(p, [bar(100, 100.1, 99.95)]).stopMoved).toBeUndefined();
+    expect(p.stopLoss).toBeCloseTo(99.85, 10);
+  });
+});
+
+describe("recovery", () => {
+  beforeEach(() => {
+    config.strategy.recoveryMode = true;
+  });
+
+  /** Initial stop hit at 99.85: the hard stop moves 0.04% of entry further out */
+  function recovering(): Position {
+    const p = position();
+    const u = update(p, [bar(100, 100.01, 99.84)]);
+    expect(u.shouldClose).toBe(false);
+    expect(u.recovery).toMatchObject({ recoveryTime: 0 });
+    return p;
+  }
+
+  test("the initial stop enters recovery instead of closing", () => {
+    const p = recovering();
+    expect(p.status).toBe("recovery");
+    expect(p.stopLoss).toBeCloseTo(99.81, 10);
+    // What the stop would have booked: −$56.25 gross − $30 fees
+    expect(p.stopOutPnl).toBeCloseTo(-86.25, 10);
+  });
+
+  test("the trigger bar only checks the hard stop", () => {
+    const p = position();
+    const u = update(p, [bar(100, 100.2, 99.8)]);
+    expect(u).toMatchObject({ shouldClose: true, reason: "recovery-stop" });
+    expect(u.exitPrice).toBeCloseTo(99.81, 10);
+  });
+
+  test("exits at fee-adjusted breakeven on the way back", () => {
+    const u = update(recovering(), [bar(99.9, 100.1, 99.9)]);
+    expect(u).toMatchObject({ shouldClose: true, reason: "recovery-breakeven" });
+    expect(u.exitPrice).toBeCloseTo(100.08, 10);
+  });
+
+  test("exits at the hard stop, or the open when it gaps through", () => {
+    const u = update(recovering(), [bar(99.83, 99.9, 99.8)]);
+    expect(u).toMatchObject({ shouldClose: true, reason: "recovery-stop" });
+    expect(u.exitPrice).toBeCloseTo(99.81, 10);
+
+    expect(update(recovering(), [bar(99.7, 99.75, 99.6)]))
+      .toEqual({ shouldClose: true, reason: "recovery-stop", exitPrice: 99.7 });
+  });
+
+  test("times out recoveryTimeSeconds after the stop was hit", () => {
+    const p = recovering();
+    expect(update(p, [bar(99.9, 99.95, 99.85)], 89_000).shouldClose).toBe(false);
+    expect(update(p, [bar(99.9, 99.95, 99.85, 99.92)], 90_000))
+      .toEqual({ shouldClose: true, reason: "recovery-timeout", exitPrice: 99.92 });
+  });
+});
+
+describe("scale-out", () => {
+  const legPrice = 100 * (1 + 55 / 37_500);   // $25 net on the full $500
+  const maxPrice = 100 * (1 + 130 / 37_500);  // $100 net on the full $500
+
+  beforeEach(() => {
+    config.scaleOut.legs = [{ atTarget: 1, fraction: 0.5 }];
+  });
+
+  /** What the ledger's PositionReduced does to the position */
+  function afterLeg(p: Position, collateral: number, price: number): Position {
+    const leg = exitLeg(p, collateral, price, "partial-profit", 0);
+    return { ...p, initialCollateral: p.collateral, collateral: p.collateral - collateral, legs: [leg], realizedPnl: leg.pnl };
+  }
+
+  test("the take-profit fills a leg and hands back the rest of the bar", () => {
+    const u = update(position(), [bar(100, 100.2, 99.95), bar(100.1, 100.2, 100)]);
+    expect(u.shouldClose).toBe(false);
+    expect(u.reduce).toMatchObject({ fraction: 0.5, reason: "partial-profit" });
+    expect(u.reduce!.exitPrice).toBeCloseTo(legPrice, 10);
+    expect(u.rest).toHaveLength(2);
+    expect(u.rest![0].open).toBeCloseTo(legPrice, 10);
+  });
+
+  test("a leg books its share of the P&L and of the round-trip fees", () => {
+    // $250 × 75x = $18,750: +$27.50 gross at the leg price, $15 fees
+    const leg = exitLeg(position(), 250, legPrice, "partial-profit", 0);
+    expect(leg.collateral).toBe(250);
+    expect(leg.grossPnl).toBeCloseTo(27.5, 10);
+    expect(leg.fees).toBeCloseTo(15, 10);
+    expect(leg.pnl).toBeCloseTo(12.5, 10);
+  });
+
+  test("the remainder runs to max-profit, still measured on the initial collateral", () => {
+    const u = update(afterLeg(position(), 250, legPrice), [bar(100.2, 100.4, 100.2)]);
+    expect(u).toMatchObject({ shouldClose: true, reason: "max-profit" });
+    expect(u.exitPrice).toBeCloseTo(maxPrice, 10);
+  });
+
+  test("the close adds the final leg and totals every leg", () => {
+    const closed = closePosition(afterLeg(position(), 250, legPrice), 100.3, "trailing-stop", 0);
+    expect(closed.legs).toHaveLength(2);
+    // Final leg: $18,750 × 0.3% = $56.25 gross, $15 fees
+    expect(closed.legs![1]).toMatchObject({ collateral: 250, price: 100.3, reason: "trailing-stop" });
+    expect(closed.legs![1].pnl).toBeCloseTo(41.25, 10);
+    expect(closed.grossPnl).toBeCloseTo(27.5 + 56.25, 10);
+    expect(closed.fees).toBeCloseTo(30, 10);
+    expect(closed.pnl).toBeCloseTo(12.5 + 41.25, 10);
+  });
+});
@@ -7,51 +7,456 @@
 //   - NEW: Underwater cut at 120s if losing > $10 net (avoids timeout-red bleeding)
 //   - Quick grab: 30s/$10 (was 45s/$15)
 //   - Max hold: 150s (was 180s)
+//
+// v3.3 CHANGES:
+//   - Stop/target decided from candle high/low (intrabar), filled at the trigger price
+//   - If one bar spans both stop and target, the stop is assumed to have hit first
+//
+// v3.5 CHANGES:
+//   - Stop ratchet: to fee-adjusted breakeven after $20 net, then trailing the best price
+//     (config.stopManagement). Moves come back on the update for the ledger to journal.
+//
+// v3.6 CHANGES:
+//   - Recovery mode (RECOVERY_MODE=on): the initial stop no longer closes the trade, it puts it
+//     in "recovery" — hard stop recoveryStopPercent further out, recoveryTimeSeconds to come
+//     back to breakeven. Exits: recovery-breakeven / recovery-stop / recovery-timeout.
+//
+// v3.7 CHANGES:
+//   - Scale-out (config.scaleOut): partial exits at multiples of the take-profit, the remainder
+//     runs to the max-profit lock-in or the trailing stop. One trade, several fills (legs).
+//
+// v3.8 CHANGES:
+//   - A bar that opens past the liquidation price (see liquidation.ts) is a liquidation: the
+//     remaining margin is lost plus the clearance fee, whatever the stop said. Paper and
+//     backtest only: a live position (venue set) is liquidated by the exchange at its mark
+//     price, so the bot keeps sending its own stop and never books a modelled liquidation.
 
 import { config } from "../config";
+import type { Candle } from "../types";
+import type { Contribution } from "../strategy/types";
+
+const CANDLE_MS = 60_000;
 
 export interface Position {
   id: string;
+  symbol?: string;            // Missing on pre-multi-symbol positions = config.symbol (see symbolOf)
   side: "Long" | "Short";
   entryPrice: number;
   entryTime: number;
-  collateral: number;
+  collateral: number;         // Still at work — partial exits release their share
   leverage: number;
-  stopLoss: number;
+  stopLoss: number;           // Ratcheted toward profit by the exit ladder (see stopMode)
   takeProfit: number;
+  liquidationPrice?: number;  // Isolated-margin liquidation at the entry fill (set by Ledger.openPosition)
   minProfitTarget: number;
   maxProfitTarget: number;
-  status: "open" | "closed";
-  exitPrice?: number;
+  status: "open" | "recovery" | "closed";
+  exitPrice?: number;         // Final fill (earlier ones are in legs)
   exitTime?: number;
-  pnl?: number;
+  pnl?: number;               // Whole trade, every leg — net of fees
   fees?: number;
   grossPnl?: number;
   reason?: string;
+  initialCollateral?: number; // Set by the first partial exit
+  realizedPnl?: number;       // Net booked by partial exits before the final close
+  legs?: ExitLeg[];           // Exit fills: partials while open, + the final one once closed
+  entrySignalPrice?: number;  // Price the strategy asked for (entryPrice/exitPrice are the fills)
+  exitSignalPrice?: number;
+  maePercent?: number;        // Max adverse / favorable excursion from entry (bar ranges, %)
+  mfePercent?: number;
+  regime?: string;            // Market brief regime at entry
+  strategy?: string;          // Strategy that signalled the entry (src/strategy/registry.ts)
+  contributors?: Contribution[];  // Ensemble entries: members that voted for the side
+  exits?: ExitParams;         // Strategy's own exit settings (unset = config.strategy)
+  targetPrice?: number;       // Strategy's exit level (mean reversion: the mean) — replaces the $ targets
+  stopMode?: StopMove["reason"];  // Set once the stop has moved off its initial level
+  recoveryTime?: number;      // When the initial stop was hit and recovery began
+  stopOutPnl?: number;        // Net P&L the initial stop would have booked — what recovery is measured against
+  lastBar?: BarSnapshot;      // Last candle range the exit engine has already evaluated
+  quantity?: number;          // Live only: filled base-asset quantity
+  venue?: string;             // Live only: exchange the orders went to
+  entryOrderId?: string;      // Live only: exchange order ids
+  exitOrderId?: string;
+}
+
+/** Exit ladder settings a strategy (or the sizer) can bring; anything unset falls back to config.strategy */
+export interface ExitParams {
+  initialStopPercent?: number;
+  targetProfitPercent?: number;
+  minProfitDollars?: number;    // Net $ take-profit (ATR sizing sets it to the net at the target)
+  maxTradeSeconds?: number;     // Also wins over the brief's maxTradeSeconds override
+  underwaterCutSeconds?: number;
+  trailPercent?: number;        // Trailing distance (ATR sizing sets ATR × trailAtrMultiple)
+}
+
+/** One ratchet of the stop — the ledger journals it as StopMoved */
+export interface StopMove {
+  from: number;
+  to: number;
+  reason: "breakeven" | "trailing";
+}
+
+/** One exit fill of a position — the share of it is collateral / initialCollateral */
+export interface ExitLeg {
+  time: number;
+  price: number;
+  collateral: number;         // Margin this leg released
+  reason: string;
+  grossPnl: number;
+  fees: number;               // Round-trip fees on this leg's share of the size
+  pnl: number;
+  signalPrice?: number;
+  quantity?: number;          // Live only: base-asset quantity filled
+  orderId?: string;
+}
+
+/** Partial exit the ladder asks for — the ledger books it */
+export interface PositionReduce {
+  fraction: number;           // Of the initial size
+  exitPrice: number;
+  reason: string;
+}
+
+/** The switch to recovery — the ledger journals it as RecoveryEntered */
+export interface RecoveryEntry {
+  recoveryTime: number;
+  stopLoss: number;           // The widened hard stop
+  stopOutPnl: number;
+}
+
+/** Range of a (possibly still forming) candle at the moment it was checked */
+export interface BarSnapshot {
+  time: number;
+  high: number;
+  low: number;
+  streamed?: boolean;         // Ticks already walked this candle (see snapshotTick) — only its close is new
 }
 
 export interface PositionUpdate {
   shouldClose: boolean;
   reason?: string;
   exitPrice?: number;
+  stopMoved?: StopMove;       // Net move of the stop over these bars (first from, last to)
+  recovery?: RecoveryEntry;   // The initial stop was hit and the position went into recovery
+  reduce?: PositionReduce;    // A scale-out leg filled — book it, then run `rest`
+  rest?: Candle[];            // Bars left to evaluate once the reduce is booked
 }
 
+export const LIQUIDATED = "liquidated";
+
 /** Calculate round-trip fees for a position */
-function calcFees(positionSize: number): number {
+export function calcFees(positionSize: number): number {
   const feeRate = config.fees.feeMode === "taker"
     ? config.fees.takerFeePercent
     : config.fees.makerFeePercent;
   return positionSize * (feeRate / 100) * 2;
 }
 
+/** Mark-to-market P&L if the position were closed at `price` (round-trip fees included) */
+export function unrealizedPnl(position: Position, price: number) {
+  const posSize = position.collateral * position.leverage;
+  const fees = calcFees(posSize);
+  const grossPnlPct = position.side === "Long"
+    ? ((price - position.entryPrice) / position.entryPrice) * 100
+    : ((position.entryPrice - price) / position.entryPrice) * 100;
+  const grossPnl = (grossPnlPct / 100) * posSize;
+  return { grossPnl, fees, netPnl: grossPnl - fees };
+}
+
+/**
+ * P&L of closing at `price` for `reason`. A liquidation doesn't fill at a price: the margin
+ * still in the position is gone, and the fees are the entry's half plus the clearance fee.
+ */
+function exitPnl(position: Position, price: number, reason: string) {
+  if (reason !== LIQUIDATED) return unrealizedPnl(position, price);
+  const posSize = position.collateral * position.leverage;
+  const grossPnl = -position.collateral;
+  const fees = calcFees(posSize) / 2 + posSize * (config.liquidation.feePercent / 100);
+  return { grossPnl, fees, netPnl: grossPnl - fees };
+}
+
+/**
+ * Price at which the position's NET P&L (after round-trip fees) equals netDollars.
+ * `collateral` picks the size it's measured on — the $ targets stay on the initial size.
+ */
+function priceForNet(position: Position, netDollars: number, collateral: number = position.collateral): number {
+  const posSize = collateral * position.leverage;
+  const movePct = (netDollars + calcFees(posSize)) / posSize;
+  return position.side === "Long"
+    ? position.entryPrice * (1 + movePct)
+    : position.entryPrice * (1 - movePct);
+}
+
+export function snapshotBar(candle: Candle): BarSnapshot {
+  return { time: candle.time, high: candle.high, low: candle.low };
+}
+
+/**
+ * Snapshot after a streaming tick was checked. The next scan skips candles before the tick's
+ * and only tests the close of the tick's own candle: its wicks may predate a stop the tick
+ * just ratcheted, and the stream has walked that path price by price anyway.
+ */
+export function snapshotTick(seen: BarSnapshot | undefined, time: number, price: number): BarSnapshot {
+  const candleTime = time - (time % CANDLE_MS);
+  if (seen?.streamed && seen.time === candleTime) {
+    return { ...seen, high: Math.max(seen.high, price), low: Math.min(seen.low, price) };
+  }
+  return { time: candleTime, high: price, low: price, streamed: true };
+}
+
+/**
+ * Candles the exit engine hasn't evaluated yet for this position.
+ * A bar that was already seen (the entry bar, or one still forming at the last scan)
+ * only keeps the part of its range that is new since then — the rest is clipped to
+ * its close so wicks from before entry can never trigger an exit.
+ */
+export function barsSinceLastCheck(position: Position, candles: Candle[]): Candle[] {
+  const seen = position.lastBar;
+  const bars: Candle[] = [];
+  
+  for (const c of candles) {
+    if (seen) {
+      if (c.time < seen.time) continue;
+      if (c.time === seen.time && seen.streamed) {
+        bars.push({ ...c, open: c.close, high: c.close, low: c.close });
+        continue;
+      }
+      if (c.time === seen.time) {
+        bars.push({
+          ...c,
+          open: c.close,
+          high: c.high > seen.high ? c.high : c.close,
+          low: c.low < seen.low ? c.low : c.close,
+        });
+        continue;
+      }
+    } else {
+      // Legacy position without a snapshot: skip bars closed before entry, clip the entry bar
+      if (c.time + CANDLE_MS <= position.entryTime) continue;
+      if (c.time <= position.entryTime) {
+        bars.push({ ...c, open: c.close, high: c.close, low: c.close });
+        continue;
+      }
+    }
+    bars.push(c);
+  }
+  
+  return bars;
+}
+
+/** Widen the position's MAE/MFE with the ranges of bars it has lived through */
+function trackExcursion(position: Position, bars: Candle[]) {
+  const isLong = position.side === "Long";
+  for (const bar of bars) {
+    const adverse = isLong ? position.entryPrice - bar.low : bar.high - position.entryPrice;
+    const favorable = isLong ? bar.high - position.entryPrice : position.entryPrice - bar.low;
+    position.maePercent = Math.max(position.maePercent ?? 0, (adverse / position.entryPrice) * 100);
+    position.mfePercent = Math.max(position.mfePercent ?? 0, (favorable / position.entryPrice) * 100);
+  }
+}
+
+/** Next scale-out leg still to fill — $-target positions only (a targetPrice exits whole) */
+function pendingLeg(position: Position): { atTarget: number; fraction: number } | undefined {
+  if (position.targetPrice !== undefined) return undefined;
+  return config.scaleOut.legs[position.legs?.length ?? 0];
+}
+
+/**
+ * Walk bars in order and return the first stop/target hit.
+ * Gaps through a level fill at the bar open; otherwise the fill is the trigger price.
+ * With scale-out the take-profit fills a leg (reduce) and the full exit moves to max-profit.
+ */
+function checkPriceExits(position: Position, bars: Candle[]): PositionUpdate | null {
+  const isLong = position.side === "Long";
+  const stop = position.stopLoss;
+  const hasTargetPrice = position.targetPrice !== undefined;
+  const scalesOut = !hasTargetPrice && config.scaleOut.legs.length > 0;
+  const basis = position.initialCollateral ?? position.collateral;
+  const maxTarget = priceForNet(position, position.maxProfitTarget, basis);
+  const target = position.targetPrice ?? (scalesOut ? maxTarget : priceForNet(position, position.minProfitTarget, basis));
+  const targetReason = hasTargetPrice ? "target-reached" : "take-profit";
+  const leg = pendingLeg(position);
+  const legPrice = leg && priceForNet(position, leg.atTarget * position.minProfitTarget, basis);
+  const legHit = (price: number) => legPrice !== undefined && (isLong ? price >= legPrice : price <= legPrice);
+  const reduce = (exitPrice: number): PositionUpdate =>
+    ({ shouldClose: false, reduce: { fraction: leg!.fraction, exitPrice, reason: "partial-profit" } });
+  // A ratcheted stop reports what it was protecting: breakeven-stop / trailing-stop
+  const stopReason = position.stopMode ? `${position.stopMode}-stop` : "stop-loss";
+  
+  for (const bar of bars) {
+    if (isLong ? bar.open <= stop : bar.open >= stop) {
+      return { shouldClose: true, reason: stopReason, exitPrice: bar.open };
+    }
+    if (isLong ? bar.open >= target : bar.open <= target) {
+      const beyondMax = !hasTargetPrice && (isLong ? bar.open >= maxTarget : bar.open <= maxTarget);
+      return { shouldClose: true, reason: beyondMax ? "max-profit" : targetReason, exitPrice: bar.open };
+    }
+    if (legHit(bar.open)) {
+      return reduce(bar.open);
+    }
+    
+    const hitStop = isLong ? bar.low <= stop : bar.high >= stop;
+    const hitTarget = isLong ? bar.high >= target : bar.low <= target;
+    
+    // Conservative ordering: a bar that spans both levels counts as a stop-out
+    if (hitStop) {
+      return { shouldClose: true, reason: stopReason, exitPrice: stop };
+    }
+    // The leg sits before the full target — the rest of the bar runs after it (see updatePosition)
+    if (legHit(isLong ? bar.high : bar.low)) {
+      return reduce(legPrice!);
+    }
+    if (hitTarget) {
+      return { shouldClose: true, reason: scalesOut ? "max-profit" : targetReason, exitPrice: target };
+    }
+  }
+  
+  return null;
+}
+
+/** Rules 4-7 act on the latest price and the time in the trade */
+function checkTimeExits(
+  position: Position,
+  currentPrice: number,
+  overrideMaxSeconds: number | undefined,
+  now: number
+): PositionUpdate | null {
+  const elapsed = (now - position.entryTime) / 1000;
+  const { netPnl } = unrealizedPnl(position, currentPrice);
+  const exits = position.exits ?? {};
+  
+  // In recovery only its own timer runs — the grabs, cut and timeout would end it early
+  if (position.status === "recovery") {
+    const inRecovery = (now - (position.recoveryTime ?? now)) / 1000;
+    if (inRecovery >= config.strategy.recoveryTimeSeconds) {
+      return { shouldClose: true, reason: "recovery-timeout", exitPrice: currentPrice };
+    }
+    return null;
+  }
+  
+  if (position.targetPrice === undefined) {
+    // 4. QUICK GRAB - after 30s take NET $10+ (v3.1: was 45s/$15)
+    if (elapsed >= config.strategy.quickExitSeconds && netPnl >= config.strategy.quickGrabDollars) {
+      return { shouldClose: true, reason: "quick-profit", exitPrice: currentPrice };
+    }
+    
+    // 5. BREAKEVEN - after 90s, exit if covering fees (net >= $0)
+    if (elapsed >= 90 && netPnl >= 0) {
+      return { shouldClose: true, reason: "breakeven-exit", exitPrice: currentPrice };
+    }
+  }
+  
+  // 6. UNDERWATER CUT - v3.1 NEW
+  // After 120s, if we're losing more than $10 net, cut it. Don't ride to timeout.
+  // This was the #1 fix needed — timeout-red exits were avg -$60 losses.
+  const underwaterCut = exits.underwaterCutSeconds ?? config.strategy.underwaterCutSeconds ?? 120;
+  const underwaterMin = config.strategy.underwaterMinLoss ?? -10;
+  if (elapsed >= underwaterCut && netPnl < underwaterMin) {
+    return { shouldClose: true, reason: "underwater-cut", exitPrice: currentPrice };
+  }
+  
+  // 7. TIMEOUT - strategy's own limit, else brief override, else config (150s)
+  const maxSeconds = exits.maxTradeSeconds ?? overrideMaxSeconds ?? config.strategy.maxTradeSeconds;
+  if (elapsed >= maxSeconds) {
+    return {
+      shouldClose: true,
+      reason: netPnl >= 0 ? "timeout-green" : "timeout-red",
+      exitPrice: currentPrice
+    };
+  }
+  
+  return null;
+}
+
+/**
+ * The initial stop was hit: keep the trade, move the stop recoveryStopPercent (of entry)
+ * further out and start the recovery timer. stopOutPnl is what closing here would have booked.
+ */
+function enterRecovery(position: Position, stopPrice: number, now: number): RecoveryEntry {
+  const widen = position.entryPrice * (config.strategy.recoveryStopPercent / 100);
+  const entry: RecoveryEntry = {
+    recoveryTime: now,
+    stopLoss: position.side === "Long" ? position.stopLoss - widen : position.stopLoss + widen,
+    stopOutPnl: unrealizedPnl(position, stopPrice).netPnl,
+  };
+  Object.assign(position, { status: "recovery", ...entry });
+  return entry;
+}
+
+/**
+ * Recovery exits on one bar: the hard stop, or back to fee-adjusted breakeven.
+ * `stopOnly` for the bar that triggered recovery — where in it the bounce came is unknown.
+ */
+function checkRecoveryExits(position: Position, bar: Candle, stopOnly: boolean): PositionUpdate | null {
+  const isLong = position.side === "Long";
+  const stop = position.stopLoss;
+  const breakeven = priceForNet(position, 0);
+  
+  if (isLong ? bar.open <= stop : bar.open >= stop) {
+    return { shouldClose: true, reason: "recovery-stop", exitPrice: bar.open };
+  }
+  if (isLong ? bar.low <= stop : bar.high >= stop) {
+    return { shouldClose: true, reason: "recovery-stop", exitPrice: stop };
+  }
+  if (stopOnly) return null;
+  if (isLong ? bar.open >= breakeven : bar.open <= breakeven) {
+    return { shouldClose: true, reason: "recovery-breakeven", exitPrice: bar.open };
+  }
+  if (isLong ? bar.high >= breakeven : bar.low <= breakeven) {
+    return { shouldClose: true, reason: "recovery-breakeven", exitPrice: breakeven };
+  }
+  return null;
+}
+
+/**
+ * Tighten the stop after a bar that didn't exit. Once the best net seen reaches
+ * breakevenAfterDollars the stop goes to the price that nets breakevenLockDollars;
+ * past trailAfterDollars it follows the best price at the trail distance. It only
+ * ever tightens, so the new level first applies to the next bar.
+ */
+function ratchetStop(position: Position): StopMove | null {
+  const k = config.stopManagement;
+  if (!k.enabled) return null;
+  
+  const isLong = position.side === "Long";
+  const mfe = (position.mfePercent ?? 0) / 100;
+  const best = isLong ? position.entryPrice * (1 + mfe) : position.entryPrice * (1 - mfe);
+  const bestNet = unrealizedPnl(position, best).netPnl;
+  const tighter = (a: number, b: number) => (isLong ? a > b : a < b);
+  
+  let level: number | null = null;
+  let reason: StopMove["reason"] = "breakeven";
+  if (bestNet >= k.breakevenAfterDollars) {
+    level = priceForNet(position, k.breakevenLockDollars);
+  }
+  if (k.trailMode !== "off" && bestNet >= k.trailAfterDollars) {
+    const distance = (position.exits?.trailPercent ?? k.trailPercent) / 100;
+    const trail = isLong ? best * (1 - distance) : best * (1 + distance);
+    if (level === null || tighter(trail, level)) {
+      level = trail;
+      reason = "trailing";
+    }
+  }
+  
+  if (level === null || !tighter(level, position.stopLoss)) return null;
+  if ((Math.abs(level - position.stopLoss) / position.entryPrice) * 100 < k.minStepPercent) return null;
+  
+  const move: StopMove = { from: position.stopLoss, to: level, reason };
+  position.stopLoss = level;
+  position.stopMode = reason;
+  return move;
+}
+
 export function createPosition(
   side: "Long" | "Short",
   entryPrice: number,
-  collateral: number
+  collateral: number,
+  now: number = Date.now(),
+  exits?: ExitParams,
+  leverage: number = config.futures.leverage
 ): Position {
-  const leverage = config.futures.leverage;
-  const stopPct = config.strategy.initialStopPercent / 100;
-  const targetPct = config.strategy.targetProfitPercent / 100;
+  const stopPct = (exits?.initialStopPercent ?? config.strategy.initialStopPercent) / 100;
+  const targetPct = (exits?.targetProfitPercent ?? config.strategy.targetProfitPercent) / 100;
   
   const stopLoss = side === "Long"
     ? entryPrice * (1 - stopPct)
@@ -62,110 +467,121 @@ export function createPosition(
     : entryPrice * (1 - targetPct);
   
   return {
-    id: `snipe-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`,
+    id: `snipe-${now}-${Math.random().toString(36).substr(2, 4)}`,
     side,
     entryPrice,
-    entryTime: Date.now(),
+    entryTime: now,
     collateral,
     leverage,
     stopLoss,
     takeProfit,
-    minProfitTarget: config.strategy.minProfitDollars,
+    minProfitTarget: exits?.minProfitDollars ?? config.strategy.minProfitDollars,
     maxProfitTarget: config.strategy.maxProfitDollars,
     status: "open" as const,
+    ...(exits ? { exits } : {}),
   };
 }
 
-// v3.2: Added overrideMaxSeconds param from market brief
 // v3.2: Added overrideMaxSeconds from market brief for regime-specific timeout
+// v3.3: Optional `now` so the backtester can drive the ladder with a simulated clock
+// v3.3: Takes the bars since the last check instead of a single scan price
+// v3.3: Records MAE/MFE on the position as bars come in
+// v3.4: Positions with a targetPrice (mean reversion) exit there and skip the $ grabs;
+//       position.exits overrides the stop/underwater/timeout settings
+// v3.5: Bars are walked one at a time so the stop can ratchet between them
+// v3.6: The initial stop hands the position to recovery when RECOVERY_MODE=on
+// v3.7: A scale-out leg returns early with `reduce`; callers book it, then run `rest`
 export function updatePosition(
   position: Position,
-  currentPrice: number,
-  overrideMaxSeconds?: number
+  bars: Candle[],
+  overrideMaxSeconds?: number,
+  now: number = Date.now()
 ): PositionUpdate {
-  const now = Date.now();
-  const elapsed = (now - position.entryTime) / 1000;
-  const posSize = position.collateral * position.leverage;
-  const fees = calcFees(posSize);
-  
-  const grossPnlPct = position.side === "Long"
-    ? ((currentPrice - position.entryPrice) / position.entryPrice) * 100
-    : ((position.entryPrice - currentPrice) / position.entryPrice) * 100;
-  const grossPnl = (grossPnlPct / 100) * posSize;
-  const netPnl = grossPnl - fees;
-  
-  // 1. STOP LOSS - hard stop, non-negotiable
-  if (position.side === "Long" && currentPrice <= position.stopLoss) {
-    return { shouldClose: true, reason: "stop-loss", exitPrice: currentPrice };
-  }
-  if (position.side === "Short" && currentPrice >= position.stopLoss) {
-    return { shouldClose: true, reason: "stop-loss", exitPrice: currentPrice };
+  if (bars.length === 0) {
+    return { shouldClose: false };
   }
   
-  // 2. MAX PROFIT - NET $100+ don't be greedy
-  if (netPnl >= position.maxProfitTarget) {
-    return { shouldClose: true, reason: "max-profit", exitPrice: currentPrice };
-  }
+  // 1-3. STOP LOSS / MAX PROFIT / TARGET - intrabar, filled at the trigger price,
+  // then ratchet the stop on what the bar reached (backtest bars and live ticks alike)
+  let stopMoved: StopMove | undefined;
+  let recovery: RecoveryEntry | undefined;
+  const withEvents = (update: PositionUpdate): PositionUpdate => ({
+    ...update,
+    ...(stopMoved ? { stopMoved } : {}),
+    ...(recovery ? { recovery } : {}),
+  });
   
-  // 3. HIT TARGET - NET $25+ after fees (v3.1: was $35)
-  if (netPnl >= position.minProfitTarget) {
-    return { shouldClose: true, reason: "take-profit", exitPrice: currentPrice };
+  for (const bar of bars) {
+    trackExcursion(position, [bar]);
+    
+    // 0. LIQUIDATION - only a gap gets past the stop (the stop sits inside liquidation).
+    // Simulated positions only; live ones exit through their stop order.
+    const liq = position.venue === undefined ? position.liquidationPrice : undefined;
+    if (liq !== undefined && (position.side === "Long" ? bar.open <= liq : bar.open >= liq)) {
+      return withEvents({ shouldClose: true, reason: LIQUIDATED, exitPrice: liq });
+    }
+    
+    // RECOVERY - hard stop or back to breakeven; no ratchet while under water
+    if (position.status === "recovery") {
+      const recoveryExit = checkRecoveryExits(position, bar, false);
+      if (recoveryExit) return withEvents(recoveryExit);
+      continue;
+    }
+    
+    const priceExit = checkPriceExits(position, [bar]);
+    if (priceExit?.reduce) {
+      // The bar goes on from the leg's fill, and the bars after it haven't been seen yet
+      const from = priceExit.reduce.exitPrice;
+      const rest = [{ ...bar, open: from }, ...bars.slice(bars.indexOf(bar) + 1)];
+      return withEvents({ ...priceExit, rest });
+    }
+    if (priceExit?.reason === "stop-loss" && config.strategy.recoveryMode) {
+      recovery = enterRecovery(position, priceExit.exitPrice!, now);
+      const hardStop = checkRecoveryExits(position, bar, true);
+      if (hardStop) return withEvents(hardStop);
+      continue;
+    }
+    if (priceExit) {
+      return withEvents(priceExit);
+    }
+    const move = ratchetStop(position);
+    if (move) {
+      stopMoved = { from: stopMoved?.from ?? move.from, to: move.to, reason: move.reason };
+    }
   }
   
-  // 4. QUICK GRAB - after 30s take NET $10+ (v3.1: was 45s/$15)
-  if (elapsed >= config.strategy.quickExitSeconds && netPnl >= config.strategy.quickGrabDollars) {
-    return { shouldClose: true, reason: "quick-profit", exitPrice: currentPrice };
-  }
-  
-  // 5. BREAKEVEN - after 90s, exit if covering fees (net >= $0)
-  if (elapsed >= 90 && netPnl >= 0) {
-    return { shouldClose: true, reason: "breakeven-exit", exitPrice: currentPrice };
-  }
-  
-  // 6. UNDERWATER CUT - v3.1 NEW
-  // After 120s, if we're losing more than $10 net, cut it. Don't ride to timeout.
-  // This was the #1 fix needed — timeout-red exits were avg -$60 losses.
-  const underwaterCut = config.strategy.underwaterCutSeconds ?? 120;
-  const underwaterMin = config.strategy.underwaterMinLoss ?? -10;
-  if (elapsed >= underwaterCut && netPnl < underwaterMin) {
-    return { shouldClose: true, reason: "underwater-cut", exitPrice: currentPrice };
-  }
-  
-  // 7. TIMEOUT - uses brief override if available, else config (150s)
-  const maxSeconds = overrideMaxSeconds ?? config.strategy.maxTradeSeconds;
-  if (elapsed >= maxSeconds) {
-    return {
-      shouldClose: true,
-      reason: netPnl >= 0 ? "timeout-green" : "timeout-red",
-      exitPrice: currentPrice
-    };
-  }
-  
-  return { shouldClose: false };
+  const timeExit = checkTimeExits(position, bars[bars.length - 1].close, overrideMaxSeconds, now);
+  return withEvents(timeExit ?? { shouldClose: false });
 }
 
 export function closePosition(
   position: Position,
   exitPrice: number,
-  reason: string
+  reason: string,
+  now: number = Date.now()
 ): Position {
-  const posSize = position.collateral * position.leverage;
-  const fees = calcFees(posSize);
-  const grossPnlPct = position.side === "Long"
-    ? ((exitPrice - position.entryPrice) / position.entryPrice) * 100
-    : ((position.entryPrice - exitPrice) / position.entryPrice) * 100;
-  const grossPnl = (grossPnlPct / 100) * posSize;
-  const netPnl = grossPnl - fees;
-  
-  return {
+  const { grossPnl, fees, netPnl } = exitPnl(position, exitPrice, reason);
+  const closed: Position = {
     ...position,
     status: "closed",
     exitPrice,
-    exitTime: Date.now(),
+    exitTime: now,
     pnl: netPnl,
     fees,
     grossPnl,
     reason,
   };
+  if (!position.legs?.length) return closed;
+  
+  // Scaled out: the trade's totals cover every leg, the final fill becomes the last one
+  const legs = [...position.legs, exitLeg(position, position.collateral, exitPrice, reason, now)];
+  const sum = (key: "grossPnl" | "fees" | "pnl") => legs.reduce((total, leg) => total + leg[key], 0);
+  return { ...closed, legs, pnl: sum("pnl"), fees: sum("fees"), grossPnl: sum("grossPnl") };
+}
+
+/** Fill of `collateral` worth of the position at `price`, with its share of the round-trip fees */
+export function exitLeg(position: Position, collateral: number, price: number, reason: string, now: number = Date.now()): ExitLeg {
+  const { grossPnl, fees, netPnl } = exitPnl({ ...position, collateral }, price, reason);
+  return { time: now, price, collateral, reason, grossPnl, fees, pnl: netPnl };
 }
 
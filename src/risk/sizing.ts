@@ -0,0 +1,136 @@
+// Position Sizing - volatility-scaled stops/targets and risk-based notional
+// Stop and target sit at multiples of recent ATR (the stop clamped to a sane band), and
+// notional is chosen so a stop-out — price move plus round-trip fees — loses
+// config.risk.riskPerTrade. Notional is then capped by the symbol's margin budget × leverage
+// and by what is left of config.risk.maxOpenRiskDollars across open positions.
+// That is SIZING=atr; the default SIZING=fixed keeps the old behaviour: positionSizeDollars at
+// full leverage, config.strategy exits.
+// With TRAIL_MODE=atr the trailing-stop distance is also fixed here, from the ATR at entry.
+// With RECOVERY_MODE=on the loss is taken at the recovery hard stop, recoveryStopPercent further out.
+// Either mode refuses an entry whose stop isn't safely inside its liquidation price (liquidation.ts).
+
+import { config } from "../config";
+import { atr, last } from "../indicators";
+import type { Candle } from "../types";
+import { calcFees, unrealizedPnl, ExitParams, Position } from "./recovery-manager";
+import { checkLiquidation } from "./liquidation";
+
+export interface SizingInput {
+  symbol: string;
+  side: "Long" | "Short";
+  candles: Candle[];          // Recent candles of the symbol, oldest first (sizingHistory() is enough)
+  price: number;
+  leverage: number;           // The symbol's leverage
+  marginBudget: number;       // The symbol's positionSizeDollars — most collateral one entry may use
+  open: Position[];           // Open positions, for the open-risk cap
+  exits?: ExitParams;         // Strategy's own exits — its initialStopPercent wins over the ATR stop
+}
+
+export interface SizingPlan {
+  allowed: boolean;
+  reason?: string;            // Why not, when allowed is false
+  collateral: number;
+  leverage: number;
+  notional: number;
+  riskDollars: number;        // Net loss if the stop fills, fees included
+  atrPercent?: number;        // ATR as % of price (ATR mode)
+  cappedBy?: "leverage" | "open-risk";
+  liquidationPrice?: number;
+  liquidationPercent?: number;  // Adverse move from entry to liquidation
+  exits: ExitParams;          // Stop/target for createPosition
+}
+
+/** Candles sizePosition reads — Wilder ATR needs a few periods to settle */
+export function sizingHistory(): number {
+  return config.sizing.atrPeriod * 3;
+}
+
+/** Net loss if the position's stop filled now — 0 once the stop is at or past breakeven */
+export function riskAtStop(position: Position): number {
+  return Math.max(0, -unrealizedPnl(position, position.stopLoss).netPnl);
+}
+
+/** How far the position can really run against us before it's out: the stop, or recovery's hard stop */
+function lossPercent(stopPercent: number): number {
+  return stopPercent + (config.strategy.recoveryMode ? config.strategy.recoveryStopPercent : 0);
+}
+
+function refuse(reason: string, input: SizingInput, atrPercent?: number): SizingPlan {
+  return { allowed: false, reason, collateral: 0, leverage: input.leverage, notional: 0, riskDollars: 0, atrPercent, exits: {} };
+}
+
+/** The last word on any plan: its stop must come well before the exchange liquidates it */
+function guardLiquidation(plan: SizingPlan, input: SizingInput, stopPercent: number): SizingPlan {
+  const check = checkLiquidation(input.symbol, input.side, input.price, plan.collateral, plan.leverage, lossPercent(stopPercent));
+  const liquidation = { liquidationPrice: check.liquidationPrice, liquidationPercent: check.liquidationPercent };
+  if (!check.allowed) {
+    return { ...refuse(check.reason!, input, plan.atrPercent), ...liquidation };
+  }
+  return { ...plan, ...liquidation };
+}
+
+export function sizePosition(input: SizingInput): SizingPlan {
+  const s = config.sizing;
+  const { price, leverage, marginBudget } = input;
+
+  if (s.mode === "fixed") {
+    const notional = marginBudget * leverage;
+    const stopPercent = input.exits?.initialStopPercent ?? config.strategy.initialStopPercent;
+    return guardLiquidation({
+      allowed: true,
+      collateral: marginBudget,
+      leverage,
+      notional,
+      riskDollars: notional * (lossPercent(stopPercent) / 100) + calcFees(notional),
+      exits: { ...input.exits },
+    }, input, stopPercent);
+  }
+
+  const atrPercent = (last(atr(input.candles, s.atrPeriod)) / price) * 100;
+  if (!Number.isFinite(atrPercent) || atrPercent <= 0) {
+    return refuse(`Not enough candles for ATR(${s.atrPeriod})`, input);
+  }
+
+  const stopPercent = input.exits?.initialStopPercent
+    ?? Math.min(s.maxStopPercent, Math.max(s.minStopPercent, atrPercent * s.stopAtrMultiple));
+  const targetPercent = input.exits?.targetProfitPercent ?? atrPercent * s.targetAtrMultiple;
+
+  const openRisk = input.open.reduce((sum, p) => sum + riskAtStop(p), 0);
+  const riskBudget = Math.min(config.risk.riskPerTrade, config.risk.maxOpenRiskDollars - openRisk);
+  if (riskBudget <= 0) {
+    return refuse(`Open risk $${openRisk.toFixed(2)} at the $${config.risk.maxOpenRiskDollars} cap`, input, atrPercent);
+  }
+
+  // Loss per $1 of notional if the stop fills: the move plus fees both ways
+  let notional = riskBudget / (lossPercent(stopPercent) / 100 + calcFees(1));
+  let cappedBy: SizingPlan["cappedBy"] = riskBudget < config.risk.riskPerTrade ? "open-risk" : undefined;
+  if (notional > marginBudget * leverage) {
+    notional = marginBudget * leverage;
+    cappedBy = "leverage";
+  }
+
+  // The $ take-profit moves to the ATR target, so it fires where the target says
+  const netAtTarget = notional * (targetPercent / 100) - calcFees(notional);
+  if (netAtTarget <= 0) {
+    return refuse(`ATR target ${targetPercent.toFixed(3)}% doesn't clear fees`, input, atrPercent);
+  }
+
+  return guardLiquidation({
+    allowed: true,
+    collateral: notional / leverage,
+    leverage,
+    notional,
+    riskDollars: notional * (lossPercent(stopPercent) / 100) + calcFees(notional),
+    atrPercent,
+    cappedBy,
+    exits: {
+      ...input.exits,
+      initialStopPercent: stopPercent,
+      targetProfitPercent: targetPercent,
+      minProfitDollars: netAtTarget,
+      ...(config.stopManagement.trailMode === "atr"
+        ? { trailPercent: atrPercent * config.stopManagement.trailAtrMultiple }
+        : {}),
+    },
+  }, input, stopPercent);
+}
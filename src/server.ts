@@ -1,41 +1,140 @@
 // Railway Deployment - Continuous Trading Loop v3.2
 // NOW READS MARKET BRIEFS from research agent
 // Pure code — no LLM inference. Brief = JSON, logic = if/else.
+// v3.3: WebSocket streaming — exits checked on every bookTicker tick,
+//       entries evaluated on candle close (REST polling kept as fallback)
+// v3.4: Scans every symbol in config.symbols — one stream (or concurrent REST fetch)
+//       per symbol, scans still run one at a time against the shared ledger
 
 import { config } from "./config";
 import { log, error } from "./logger";
-import { BinanceClient } from "./exchange/binance";
-import { detectMomentum, Candle } from "./strategy/momentum-strategy";
-import { createPosition, updatePosition } from "./risk/recovery-manager";
+import { createMarketData } from "./exchange/factory";
+import type { ExchangeAdapter } from "./exchange/types";
+import { BinanceStream, BookTick } from "./exchange/binance-stream";
+import { getStrategy, fetchTimeframes } from "./strategy/registry";
+import type { Candle } from "./types";
+import { createPosition, barsSinceLastCheck, snapshotBar, snapshotTick, unrealizedPnl, ExitLeg, Position, PositionUpdate } from "./risk/recovery-manager";
 import { Ledger } from "./ledger";
+import { analyzePositions, formatSummary } from "./analytics";
+import { createApi, ApiHandler } from "./api";
+import { createControl } from "./control";
+import { createDashboard, ScanStatus } from "./dashboard";
+import { createMetrics, metrics } from "./metrics";
+import { DecisionLog, ScanAction, ScanRecord, candleTail, hashCandles } from "./decision-log";
 import { GitHubSync } from "./github-sync";
+import { baseAsset, symbolOf, symbolSettings } from "./symbols";
+import { sizePosition, sizingHistory } from "./risk/sizing";
 import { getOverrides, getCurrentBrief, ScalperOverrides } from "./brief-reader";
 
 const SCAN_INTERVAL_MS = 30_000;
 const GITHUB_SYNC_INTERVAL_MS = 300_000;
 const HEALTH_PORT = parseInt(process.env.PORT || "3000");
-
-let lastSignalTime = 0;
+// The WebSocket feed is Binance's; other providers poll their REST API
+const STREAMING = config.dataSource.streaming && config.dataSource.provider === "binance";
+const strategy = getStrategy();
+// Enough history for whichever strategy a scan runs (the brief can switch to mean reversion)
+const CANDLE_LIMIT = Math.max(
+  config.candleLimit,
+  strategy.history,
+  config.meanReversion.autoSelect ? getStrategy("mean-reversion").history : 0,
+  sizingHistory()
+);
+
+const lastSignalTime = new Map<string, number>();  // Per symbol
 const MIN_SIGNAL_INTERVAL = 30_000;
 let scanCount = 0;
 let lastGitHubSync = 0;
 let isRunning = true;
 let currentOverrides: ScalperOverrides | null = null;
+const lastPrices = new Map<string, number>();      // Latest close or book mid per symbol, for unrealized P&L
+let lastScan: ScanStatus | null = null;  // Why the latest scan did (or didn't) enter, for the dashboard
+let routes: ApiHandler[] = [];            // /api + /control, mounted once the ledger is loaded
+const decisionLog = new DecisionLog();
+
+// Scans and tick exits both mutate the ledger — run them one at a time
+let exclusiveQueue: Promise<unknown> = Promise.resolve();
+const tickCheckPending = new Set<string>();  // Symbols with a tick exit check queued
+
+function exclusive<T>(fn: () => Promise<T>): Promise<T> {
+  const run = exclusiveQueue.then(fn);
+  exclusiveQueue = run.catch(() => {});
+  return run;
+}
+
+/** Record where the scan stopped, for the dashboard and the decision log */
+function noteScan(record: ScanRecord, action: ScanAction, reason: string) {
+  record.action = action;
+  record.reason = reason;
+  lastScan = { time: Date.now(), scan: record.scan, reason };
+}
+
+function lastPrice(symbol: string = config.symbols[0]): number | null {
+  return lastPrices.get(symbol) ?? null;
+}
 
-function normalizeCandles(rawKlines: any[]): Candle[] {
-  return rawKlines.map((k: any) => ({
-    time: k[0],
-    open: parseFloat(k[1]),
-    high: parseFloat(k[2]),
-    low: parseFloat(k[3]),
-    close: parseFloat(k[4]),
-    volume: parseFloat(k[5]),
-  }));
+/** Log what the exit ladder changed on a position (Ledger.runExitLadder journals it) */
+function logExitChange(position: Position, update: PositionUpdate, leg?: ExitLeg) {
+  const move = update.stopMoved;
+  if (move) {
+    const locked = unrealizedPnl(position, move.to).netPnl;
+    log("🔒 STOP " + symbolOf(position) + " " + position.side + " $" + move.from.toFixed(2) + " → $" + move.to.toFixed(2) + " (" + move.reason + ", locks NET $" + locked.toFixed(2) + ")");
+  }
+  const recovery = update.recovery;
+  if (recovery) {
+    log("🩹 RECOVERY " + symbolOf(position) + " " + position.side + " stop hit (NET $" + recovery.stopOutPnl.toFixed(2) + "), hard stop $" + recovery.stopLoss.toFixed(2) + ", " + config.strategy.recoveryTimeSeconds + "s to get back to breakeven");
+  }
+  const reduce = update.reduce;
+  if (reduce && leg) {
+    log("💵 PARTIAL " + symbolOf(position) + " " + position.side + " " + (reduce.fraction * 100).toFixed(0) + "% NET $" + leg.pnl.toFixed(2) + " @ $" + leg.price.toFixed(2) + " | " + reduce.reason);
+  }
 }
 
-async function scan(client: BinanceClient, ledger: Ledger, ghSync: GitHubSync) {
+function logClosed(position: Position, closed: Position | undefined) {
+  const pnl = closed?.pnl || 0;
+  const fees = closed?.fees || 0;
+  const grossPnl = closed?.grossPnl || 0;
+  const emoji = pnl >= 0 ? "💰" : "💸";
+  const timeElapsed = ((closed?.exitTime || 0) - (closed?.entryTime || 0)) / 1000;
+  log(emoji + " CLOSED " + symbolOf(position) + " " + position.side + " NET $" + pnl.toFixed(2) + " (gross $" + grossPnl.toFixed(2) + " - $" + fees.toFixed(2) + " fees) in " + timeElapsed.toFixed(0) + "s | " + (closed?.reason || ""));
+}
+
+/** Where a market exit would fill now — falls back to the last scan/tick price if the ticker is down */
+async function marketExitPrice(client: ExchangeAdapter, position: Position): Promise<number> {
+  try {
+    const ticker = await client.getTicker(symbolOf(position));
+    return (position.side === "Long" ? ticker.bid : ticker.ask) ?? ticker.price;
+  } catch (err) {
+    const fallback = lastPrice(symbolOf(position));
+    if (fallback === null) throw err;
+    return fallback;
+  }
+}
+
+/** Streaming exits: treat each top-of-book update as a one-price bar (bid for longs, ask for shorts) */
+async function checkTickExits(symbol: string, ledger: Ledger, ghSync: GitHubSync, tick: BookTick) {
+  let positionClosed = false;
+  for (const position of ledger.openPositions.filter(p => symbolOf(p) === symbol)) {
+    const price = position.side === "Long" ? tick.bid : tick.ask;
+    const bar: Candle = { time: tick.time, open: price, high: price, low: price, close: price, volume: 0 };
+    position.lastBar = snapshotTick(position.lastBar, tick.time, price);
+    const update = await ledger.runExitLadder(position, [bar], currentOverrides?.maxTradeSeconds, (u, leg) => logExitChange(position, u, leg));
+    if (update.shouldClose) {
+      const closed = await ledger.closePosition(position.id, update.exitPrice!, update.reason!);
+      logClosed(position, closed);
+      positionClosed = true;
+    }
+  }
+  if (positionClosed) {
+    await ghSync.pushLedger();
+  }
+}
+
+async function scan(symbol: string, client: ExchangeAdapter, ledger: Ledger, ghSync: GitHubSync, prefetched?: Candle[]) {
   scanCount++;
-  const scanId = "#" + scanCount;
+  metrics.scans.inc();
+  const scanId = "#" + scanCount + " " + baseAsset(symbol);
+  const record: ScanRecord = { scan: scanCount, time: Date.now(), symbol, action: "failed", reason: "", closed: [] };
+  const sym = symbolSettings(symbol);
   
   try {
     // Daily reset check
@@ -48,7 +147,8 @@ async function scan(client: BinanceClient, ledger: Ledger, ghSync: GitHubSync) {
       log("   P&L: $" + stats.dailyPnl + " (net after fees)");
       log("   Trades: " + stats.totalTrades + " (" + stats.wins + "W/" + stats.losses + "L)");
       log("   Win Rate: " + stats.winRate + "%");
-      ledger.resetDaily();
+      log("   " + formatSummary(analyzePositions(ledger.closedPositions, ledger.state.initialBalance)));
+      await ledger.resetDaily();
       await ledger.save();
       await ghSync.pushLedger();
     }
@@ -57,34 +157,41 @@ async function scan(client: BinanceClient, ledger: Ledger, ghSync: GitHubSync) {
     // Fetch overrides from research agent (cached, refreshes every 5min)
     const overrides = await getOverrides();
     currentOverrides = overrides;
-
-    const klines = await client.getKlines(
-      config.symbol,
+    record.overrides = overrides;
+    record.briefGateOff = ledger.state.briefGateOff ?? false;
+    // The brief may hand this regime to another strategy (ranging/squeeze → mean reversion)
+    const active = overrides.strategy ? getStrategy(overrides.strategy) : strategy;
+
+    // Streaming hands us the buffer on candle close, polling prefetches it; refetch if that failed
+    const candles = prefetched ?? await client.getCandles(
+      symbol,
       config.candleInterval,
-      config.candleLimit
+      CANDLE_LIMIT
     );
-    const candles = normalizeCandles(klines.list);
     const currentPrice = candles[candles.length - 1].close;
-
-    // Check open positions (always — even if trading disabled, manage exits)
-    const openBefore = [...ledger.openPositions];
+    lastPrices.set(symbol, currentPrice);
+    record.price = currentPrice;
+    record.candlesHash = hashCandles(candles);
+    const tail = candleTail(candles, active.history);
+    record.candles = tail;
+
+    // Check this symbol's open positions (always — even if trading disabled, manage exits)
+    const openBefore = ledger.openPositions.filter(p => symbolOf(p) === symbol);
     let positionClosed = false;
     for (const position of openBefore) {
+      // Evaluate stop/target on every bar range since the last scan, not just the last close
+      const bars = barsSinceLastCheck(position, candles);
+      position.lastBar = snapshotBar(candles[candles.length - 1]);
       // Pass override for maxTradeSeconds to tighten exits in certain regimes
-      const update = updatePosition(position, currentPrice, overrides.maxTradeSeconds);
+      const update = await ledger.runExitLadder(position, bars, overrides.maxTradeSeconds, (u, leg) => logExitChange(position, u, leg));
       if (update.shouldClose) {
         const closed = await ledger.closePosition(
           position.id,
           update.exitPrice!,
           update.reason!
         );
-        
-        const pnl = closed?.pnl || 0;
-        const fees = (closed as any)?.fees || 0;
-        const grossPnl = (closed as any)?.grossPnl || 0;
-        const emoji = pnl >= 0 ? "💰" : "💸";
-        const timeElapsed = ((closed?.exitTime || 0) - (closed?.entryTime || 0)) / 1000;
-        log(emoji + " CLOSED " + position.side + " NET $" + pnl.toFixed(2) + " (gross $" + grossPnl.toFixed(2) + " - $" + fees.toFixed(2) + " fees) in " + timeElapsed.toFixed(0) + "s | " + (closed?.reason || ""));
+        logClosed(position, closed);
+        if (closed) record.closed.push({ id: closed.id, reason: closed.reason!, exitPrice: closed.exitPrice!, pnl: closed.pnl || 0 });
         positionClosed = true;
       }
     }
@@ -98,76 +205,145 @@ async function scan(client: BinanceClient, ledger: Ledger, ghSync: GitHubSync) {
       const stats = ledger.stats;
       const brief = getCurrentBrief();
       const regimeTag = brief ? ` | 📊 ${brief.regime}` : "";
-      log(scanId + " 💎 $" + ledger.state.balance.toFixed(2) + " | Day: $" + stats.dailyPnl + " (net) | " + stats.totalTrades + " trades (" + stats.winRate + "% W) | BTC: $" + currentPrice.toFixed(2) + regimeTag);
+      log(scanId + " 💎 $" + ledger.state.balance.toFixed(2) + " | Day: $" + stats.dailyPnl + " (net) | " + stats.totalTrades + " trades (" + stats.winRate + "% W) | " + baseAsset(symbol) + ": $" + currentPrice.toFixed(2) + regimeTag);
     }
 
-    // ===== TRADING GATE — Research agent can pause us =====
+    // ===== TRADING GATE — Research agent can pause us (unless the operator turned the gate off) =====
     if (!overrides.tradingEnabled) {
-      if (scanCount % 20 === 0) log(scanId + " 📊 " + overrides.reason);
-      return;
+      if (!ledger.state.briefGateOff) {
+        noteScan(record, "brief-gate", overrides.reason);
+        if (scanCount % 20 === 0) log(scanId + " 📊 " + overrides.reason);
+        return;
+      }
+      if (scanCount % 20 === 0) log(scanId + " 🎛️  Brief gate off, ignoring: " + overrides.reason);
     }
 
     // Can we trade? (risk limits)
-    const canOpen = ledger.canOpenPosition();
+    const canOpen = ledger.canOpenPosition(symbol, sym.positionSizeDollars);
+    record.canOpen = canOpen;
     if (!canOpen.allowed) {
+      noteScan(record, "risk-limit", canOpen.reason || "Risk limits");
       if (scanCount % 20 === 0) log(scanId + " 🛑 " + canOpen.reason);
       return;
     }
 
     // Signal cooldown
-    if (Date.now() - lastSignalTime < MIN_SIGNAL_INTERVAL) {
+    record.cooldownMs = Math.max(0, MIN_SIGNAL_INTERVAL - (Date.now() - (lastSignalTime.get(symbol) ?? 0)));
+    if (record.cooldownMs > 0) {
+      noteScan(record, "cooldown", "Signal cooldown");
       return;
     }
 
-    // DETECT MOMENTUM — with regime overrides
-    const effectiveThreshold = overrides.momentumThreshold || config.strategy.momentumThreshold;
-    const effectiveChase = overrides.maxChasePercent || config.strategy.maxChasePercent;
-    const signal = detectMomentum(candles, effectiveThreshold, effectiveChase);
+    // DETECT — configured (or regime-picked) strategy; symbol overrides, then the brief's, then config
+    const effectiveThreshold = sym.momentumThreshold ?? (overrides.momentumThreshold || config.strategy.momentumThreshold);
+    const effectiveChase = sym.maxChasePercent ?? (overrides.maxChasePercent || config.strategy.maxChasePercent);
+    const timeframes = await fetchTimeframes(active, client, symbol);
+    // Exactly the logged tail, so path-dependent indicators (EMA, Wilder RSI) replay identically
+    const signal = active.evaluate({
+      candles: tail,
+      timeframes,
+      overrides: { momentumThreshold: effectiveThreshold, maxChasePercent: effectiveChase },
+    });
+    record.strategyName = active.name;
+    record.threshold = effectiveThreshold;
+    record.chase = effectiveChase;
+    record.strategy = { ...config.strategy };
+    if (active.settings) record.settings = { ...active.settings };
+    if (active.members) {
+      record.memberSettings = Object.fromEntries(
+        active.members.filter(m => m.settings).map(m => [m.name, { ...m.settings }])
+      );
+    }
+    record.timeframes = timeframes;
+    record.signal = signal;
     
     if (!signal.detected) {
+      noteScan(record, "no-signal", signal.reason || "No signal");
+      metrics.signalsRejected.inc({ strategy: active.name, rule: signal.rule || "unknown" });
       if (scanCount % 10 === 0) log(scanId + " 🔍 " + signal.reason);
       return;
     }
 
     // ===== SIDE FILTER — Research agent can prefer a direction =====
+    metrics.signalsDetected.inc({ strategy: active.name, side: signal.side! });
     if (overrides.preferredSide && signal.side !== overrides.preferredSide) {
+      metrics.signalsRejected.inc({ strategy: active.name, rule: "regime-side" });
+      noteScan(record, "side-filter", "Skipped " + signal.side + " (regime prefers " + overrides.preferredSide + "): " + signal.reason);
       if (scanCount % 10 === 0) log(scanId + " 📊 Skipping " + signal.side + " — regime prefers " + overrides.preferredSide);
       return;
     }
 
+    // SIZE — the fixed size (SIZING=atr: ATR stop/target, notional from risk per trade)
+    const plan = sizePosition({
+      symbol,
+      side: signal.side!,
+      candles: candles.slice(-sizingHistory()),
+      price: currentPrice,
+      leverage: sym.leverage,
+      marginBudget: sym.positionSizeDollars,
+      open: ledger.openPositions,
+      exits: signal.exits ?? active.exits,
+    });
+    record.sizing = plan;
+    if (!plan.allowed) {
+      noteScan(record, "sized-out", plan.reason!);
+      log(scanId + " 📏 Skipping " + signal.side + " — " + plan.reason);
+      return;
+    }
+
+    noteScan(record, "enter", signal.reason!);
     log(scanId + " ⚡ " + signal.reason);
 
     // OPEN POSITION
     const position = createPosition(
       signal.side!,
       currentPrice,
-      config.risk.positionSizeDollars
+      plan.collateral,
+      undefined,
+      plan.exits,
+      plan.leverage
     );
-
-    await ledger.openPosition(position);
-    lastSignalTime = Date.now();
-
-    const feePerSide = config.risk.positionSizeDollars * config.futures.leverage * (config.fees.takerFeePercent / 100);
+    position.symbol = symbol;
+    position.targetPrice = signal.targetPrice;
+    position.contributors = signal.contributors;
+    position.lastBar = snapshotBar(candles[candles.length - 1]);
+    position.regime = getCurrentBrief()?.regime;
+    position.strategy = active.name;
+
+    const opened = await ledger.openPosition(position);
+    lastSignalTime.set(symbol, Date.now());
+    record.opened = { id: opened.id, side: opened.side, entryPrice: opened.entryPrice };
+
+    const notional = opened.collateral * opened.leverage;
+    const feePerSide = notional * (config.fees.takerFeePercent / 100);
     const roundTripFee = (feePerSide * 2).toFixed(2);
     const sideEmoji = signal.side === "Long" ? "🟢" : "🔴";
-    const posSize = (config.risk.positionSizeDollars * config.futures.leverage).toFixed(0);
-    const targetDollars = (config.risk.positionSizeDollars * config.futures.leverage * config.strategy.targetProfitPercent / 100).toFixed(2);
+    const posSize = notional.toFixed(0);
+    const targetDollars = (notional * Math.abs(opened.takeProfit - opened.entryPrice) / opened.entryPrice).toFixed(2);
     const brief = getCurrentBrief();
     const regimeNote = brief ? ` [${brief.regime}]` : "";
-    log(sideEmoji + " " + signal.side + " $" + posSize + " @ $" + currentPrice.toFixed(2) + " | Target: +$" + targetDollars + " gross | Fees: $" + roundTripFee + regimeNote);
+    const targetNote = opened.targetPrice !== undefined ? "$" + opened.targetPrice.toFixed(2) : "+$" + targetDollars + " gross";
+    log(sideEmoji + " " + symbol + " " + signal.side + " $" + posSize + " @ $" + opened.entryPrice.toFixed(2) + " | Target: " + targetNote + " | Risk: $" + plan.riskDollars.toFixed(2) + (plan.cappedBy ? " (" + plan.cappedBy + " cap)" : "") + " | Liq: $" + opened.liquidationPrice!.toFixed(2) + " | Fees: $" + roundTripFee + regimeNote);
 
     await ghSync.pushLedger();
 
   } catch (err) {
-    error(scanId + " Error: " + (err instanceof Error ? err.message : String(err)));
+    record.error = err instanceof Error ? err.message : String(err);
+    error(scanId + " Error: " + record.error);
+  } finally {
+    if (config.decisionLog.enabled) await decisionLog.append(record);
   }
 }
 
 async function startHealthServer() {
   const server = Bun.serve({
     port: HEALTH_PORT,
-    fetch(req) {
+    async fetch(req) {
       const url = new URL(req.url);
+      for (const route of routes) {
+        const response = await route(req, url);
+        if (response) return response;
+      }
       if (url.pathname === "/health") {
         const brief = getCurrentBrief();
         return new Response(JSON.stringify({
@@ -175,6 +351,7 @@ async function startHealthServer() {
           scans: scanCount,
           uptime: process.uptime(),
           mode: config.tradingMode,
+          symbols: config.symbols,
           version: "v3.2-brief-aware",
           regime: brief?.regime || "unknown",
           regimeConfidence: brief?.regimeConfidence || 0,
@@ -193,10 +370,13 @@ async function startHealthServer() {
 
 async function main() {
   log("🚀 MOMENTUM RIDER v3.2 - Brief-Aware");
-  log("   Scan interval: " + (SCAN_INTERVAL_MS / 1000) + "s");
+  log("   Scan interval: " + (STREAMING ? "on candle close (streaming)" : (SCAN_INTERVAL_MS / 1000) + "s"));
   log("   Mode: " + config.tradingMode);
-  log("   Symbol: " + config.symbol);
-  log("   Leverage: " + config.futures.leverage + "x");
+  if (config.tradingMode === "live") log("   🏦 LIVE orders → " + config.execution.baseUrl);
+  log("   Symbols: " + config.symbols.join(", ") + " (data: " + [config.dataSource.provider, ...config.dataSource.fallbackProviders].join(" → ") + ")");
+  log("   Strategy: " + strategy.name + " — " + strategy.description);
+  log("   Leverage: " + config.symbols.map(s => baseAsset(s) + " " + symbolSettings(s).leverage + "x").join(", "));
+  log("   Caps: " + config.futures.maxPositions + " positions (" + config.futures.maxPositionsPerSymbol + "/symbol), $" + config.risk.maxTotalMarginDollars + " margin");
   log("   Fees: " + config.fees.takerFeePercent + "% taker per side");
   log("   📊 Reading market briefs from research agent");
   
@@ -206,7 +386,7 @@ async function main() {
 
   await startHealthServer();
 
-  const client = new BinanceClient(config.dataSource.baseUrl);
+  const client = createMarketData();
   const ledger = new Ledger();
   const ghSync = new GitHubSync();
 
@@ -219,12 +399,69 @@ async function main() {
     log("📂 Using local ledger (balance: $" + ledger.state.balance.toFixed(2) + ")");
   }
 
+  const views = {
+    ledger,
+    lastPrice,
+    overrides: () => currentOverrides,
+  };
+  routes = [
+    createApi(views),
+    createMetrics({ ledger, briefTime: () => getCurrentBrief()?.timestamp ?? null }),
+    createDashboard({ ...views, lastScan: () => lastScan }),
+    createControl({
+      ledger,
+      exclusive,
+      exitPrice: position => marketExitPrice(client, position),
+      onChange: () => ghSync.pushLedger(),
+    }),
+  ];
+  if (!config.control.token) log("🎛️  Control API disabled (no CONTROL_TOKEN)");
+  log("📺 Dashboard on http://localhost:" + HEALTH_PORT + "/dashboard");
+
+  // One WebSocket per symbol; each drives its own scans and tick exits
+  const streams = new Map<string, BinanceStream>();
+  if (STREAMING) {
+    for (const symbol of config.symbols) {
+      const stream = new BinanceStream(
+        client,
+        symbol,
+        config.candleInterval,
+        CANDLE_LIMIT,
+        config.dataSource.streamUrl,
+        {
+          onCandleClose: candles => {
+            exclusive(() => scan(symbol, client, ledger, ghSync, candles))
+              .catch(err => error("Stream scan error: " + (err instanceof Error ? err.message : String(err))));
+          },
+          onTick: tick => {
+            lastPrices.set(symbol, (tick.bid + tick.ask) / 2);
+            if (tickCheckPending.has(symbol) || !ledger.openPositions.some(p => symbolOf(p) === symbol)) return;
+            tickCheckPending.add(symbol);
+            exclusive(() => checkTickExits(symbol, ledger, ghSync, tick))
+              .catch(err => error("Tick exit error: " + (err instanceof Error ? err.message : String(err))))
+              .finally(() => { tickCheckPending.delete(symbol); });
+          },
+        }
+      );
+      await stream.start();
+      streams.set(symbol, stream);
+    }
+  }
+
   log("⚡ Starting scan loop...");
 
   const loop = async () => {
     while (isRunning) {
       try {
-        await scan(client, ledger, ghSync);
+        // Streaming drives scans on candle close; poll only symbols whose socket is down.
+        // Fetch them all at once, then scan one at a time (a failed fetch is retried in scan)
+        const polled = config.symbols.filter(symbol => !streams.get(symbol)?.connected);
+        const fetched = await Promise.all(polled.map(symbol =>
+          client.getCandles(symbol, config.candleInterval, CANDLE_LIMIT).catch(() => undefined)
+        ));
+        for (const [i, symbol] of polled.entries()) {
+          await exclusive(() => scan(symbol, client, ledger, ghSync, fetched[i]));
+        }
       } catch (loopErr) {
         error("LOOP ERROR: " + (loopErr instanceof Error ? loopErr.stack || loopErr.message : String(loopErr)));
       }
@@ -241,6 +478,8 @@ async function main() {
   process.on("SIGTERM", async () => {
     log("SIGTERM received, shutting down...");
     isRunning = false;
+    streams.forEach(stream => stream.stop());
+    await ledger.save();
     await ghSync.pushLedger();
     log("Final ledger synced to GitHub");
     process.exit(0);
@@ -249,6 +488,8 @@ async function main() {
   process.on("SIGINT", async () => {
     log("SIGINT received, shutting down...");
     isRunning = false;
+    streams.forEach(stream => stream.stop());
+    await ledger.save();
     await ghSync.pushLedger();
     process.exit(0);
   });
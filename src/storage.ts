@@ -0,0 +1,34 @@
+// Crash-safe file writes
+// A kill mid-write must leave either the old file or the new one, never half of each:
+// write + fsync a temp file next to the target, then rename over it (atomic on POSIX).
+
+import { copyFile, open, rename, unlink } from "fs/promises";
+
+export async function writeFileAtomic(path: string, data: string) {
+  const tmp = `${path}.tmp`;
+  const handle = await open(tmp, "w");
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await rename(tmp, path);
+}
+
+/** Backup paths newest first: path.1 … path.N */
+export function backupPaths(path: string, keep: number): string[] {
+  return Array.from({ length: keep }, (_, i) => `${path}.${i + 1}`);
+}
+
+/** Shift path.1 → path.2 … and copy the current file to path.1 (oldest falls off) */
+export async function rotateBackups(path: string, keep: number) {
+  if (keep <= 0) return;
+  const backups = backupPaths(path, keep);
+
+  await unlink(backups[keep - 1]).catch(() => {});
+  for (let i = keep - 1; i > 0; i--) {
+    await rename(backups[i - 1], backups[i]).catch(() => {});
+  }
+  await copyFile(path, backups[0]).catch(() => {});
+}
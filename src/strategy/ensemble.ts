@@ -0,0 +1,125 @@
+// Ensemble - runs several strategies each scan and lets them vote
+// Each member that fires votes weight × strength for its side; the score for a side is
+// that sum over the total weight of all members, so silence counts against a trade.
+// Members disagreeing on side veto the trade (config.ensemble.vetoOnConflict).
+// Settings live in config.ensemble (STRATEGY=ensemble). The entry exits like the strongest vote
+// on its side would have alone: its targetPrice and its own exits (mean reversion's), if any.
+
+import { config } from "../config";
+import type { Candle } from "../types";
+import { getStrategy } from "./registry";
+import type { ExitParams } from "../risk/recovery-manager";
+import type { Contribution, Side, Strategy, StrategyInput, StrategySignal } from "./types";
+
+/** Resolved lazily — the registry imports this module */
+function members(): Strategy[] {
+  return Object.keys(config.ensemble.weights).map(name => {
+    if (name === ensembleStrategy.name) throw new Error("The ensemble can't be its own member");
+    return getStrategy(name);
+  });
+}
+
+/** The ensemble fetches the longest series per interval; trim back to what the member asked for */
+function ownTimeframes(member: Strategy, timeframes?: Record<string, Candle[]>): Record<string, Candle[]> | undefined {
+  if (!member.timeframes || !timeframes) return undefined;
+  return Object.fromEntries(
+    Object.entries(member.timeframes).map(([interval, limit]) => [interval, (timeframes[interval] ?? []).slice(-limit)])
+  );
+}
+
+export function runEnsemble({ candles, timeframes, overrides }: StrategyInput): StrategySignal {
+  const k = config.ensemble;
+  const totalWeight = Object.values(k.weights).reduce((a, b) => a + b, 0);
+  const diagnostics: Record<string, number | boolean | string> = {};
+  const votes: Contribution[] = [];
+  const sides: Record<string, Side> = {};
+  const exits: Record<string, { targetPrice?: number; exits?: ExitParams }> = {};
+
+  for (const member of members()) {
+    // Each member sees exactly the candles it would read on its own
+    const signal = member.evaluate({
+      candles: candles.slice(-member.history),
+      timeframes: ownTimeframes(member, timeframes),
+      overrides,
+    });
+    diagnostics[`${member.name}.side`] = signal.detected ? signal.side! : "none";
+    diagnostics[`${member.name}.strength`] = signal.strength;
+    if (!signal.detected) continue;
+    votes.push({ strategy: member.name, weight: k.weights[member.name], strength: signal.strength });
+    sides[member.name] = signal.side!;
+    exits[member.name] = { targetPrice: signal.targetPrice, exits: member.exits };
+  }
+
+  const score = (side: Side) =>
+    votes.filter(v => sides[v.strategy] === side).reduce((sum, v) => sum + v.weight * v.strength, 0) /
+    (totalWeight || 1);
+  const longScore = score("Long");
+  const shortScore = score("Short");
+  diagnostics.longScore = longScore;
+  diagnostics.shortScore = shortScore;
+
+  if (votes.length === 0) {
+    return { detected: false, strength: 0, reason: "No member signalled", rule: "no-votes", diagnostics };
+  }
+
+  if (k.vetoOnConflict && longScore > 0 && shortScore > 0) {
+    const split = votes.map(v => `${v.strategy} ${sides[v.strategy]}`).join(", ");
+    return { detected: false, strength: 0, reason: `Members disagree (${split})`, rule: "side-conflict", diagnostics };
+  }
+
+  const side: Side = longScore >= shortScore ? "Long" : "Short";
+  const agreement = Math.max(longScore, shortScore);
+  const contributors = votes.filter(v => sides[v.strategy] === side);
+  const names = contributors.map(v => v.strategy).join("+");
+
+  if (agreement < k.minAgreement) {
+    return {
+      detected: false,
+      side,
+      strength: agreement,
+      reason: `Weak agreement ${agreement.toFixed(2)} < ${k.minAgreement} (${names})`,
+      rule: "no-agreement",
+      diagnostics,
+    };
+  }
+
+  // First listed wins a tie
+  const winner = contributors.reduce((best, v) => v.weight * v.strength > best.weight * best.strength ? v : best);
+  const { targetPrice, exits: winnerExits } = exits[winner.strategy];
+  diagnostics.exitsFrom = winner.strategy;
+
+  return {
+    detected: true,
+    side,
+    strength: Math.min(1, agreement),
+    reason: `Ensemble ${side} ${agreement.toFixed(2)} (${names})`,
+    contributors,
+    ...(targetPrice !== undefined ? { targetPrice } : {}),
+    ...(winnerExits ? { exits: winnerExits } : {}),
+    diagnostics,
+  };
+}
+
+export const ensembleStrategy: Strategy = {
+  name: "ensemble",
+  description: "Weighted vote of several strategies with side veto",
+  settings: config.ensemble,
+  get members() {
+    return members();
+  },
+  get history() {
+    return Math.max(...members().map(m => m.history));
+  },
+  get timeframes() {
+    const needed: Record<string, number> = {};
+    for (const m of members()) {
+      for (const [interval, limit] of Object.entries(m.timeframes ?? {})) {
+        needed[interval] = Math.max(needed[interval] ?? 0, limit);
+      }
+    }
+    return Object.keys(needed).length > 0 ? needed : undefined;
+  },
+  evaluate(input) {
+    return runEnsemble(input);
+  },
+};
@@ -1,16 +1,13 @@
 // Kallisti's Gold Strategy - Ported to Crypto
 // Core concept: Trend bias + pullback entries + quick exits
+// Settings live in config.kallisti (STRATEGY=kallisti); the exit ladder is the shared one
 
 import { config } from "../config";
+import type { Candle } from "../types";
+import { bollinger, ema, last, rsi as rsiSeries, sma } from "../indicators";
+import type { Strategy, StrategySignal } from "./types";
 
-export interface Candle {
-  time: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
+export type { Candle };
 
 export interface TrendSignal {
   direction: "bullish" | "bearish" | "neutral";
@@ -28,61 +25,6 @@ export interface EntrySignal {
   bbPosition: "upper" | "middle" | "lower";
 }
 
-// Calculate EMA
-function calculateEMA(prices: number[], period: number): number {
-  const k = 2 / (period + 1);
-  let ema = prices[0];
-  
-  for (let i = 1; i < prices.length; i++) {
-    ema = prices[i] * k + ema * (1 - k);
-  }
-  
-  return ema;
-}
-
-// Calculate RSI
-function calculateRSI(prices: number[], period: number): number {
-  if (prices.length < period + 1) return 50;
-  
-  const changes = [];
-  for (let i = 1; i < prices.length; i++) {
-    changes.push(prices[i] - prices[i - 1]);
-  }
-  
-  const recentChanges = changes.slice(-period);
-  const gains = recentChanges.filter(c => c > 0);
-  const losses = recentChanges.filter(c => c < 0).map(c => Math.abs(c));
-  
-  const avgGain = gains.length > 0 ? gains.reduce((a, b) => a + b, 0) / period : 0;
-  const avgLoss = losses.length > 0 ? losses.reduce((a, b) => a + b, 0) / period : 0;
-  
-  if (avgLoss === 0) return 100;
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
-}
-
-// Calculate Bollinger Bands
-function calculateBollingerBands(prices: number[], period: number, stdDev: number) {
-  const recentPrices = prices.slice(-period);
-  const sma = recentPrices.reduce((a, b) => a + b, 0) / period;
-  
-  const squaredDiffs = recentPrices.map(p => Math.pow(p - sma, 2));
-  const variance = squaredDiffs.reduce((a, b) => a + b, 0) / period;
-  const standardDeviation = Math.sqrt(variance);
-  
-  return {
-    upper: sma + (standardDeviation * stdDev),
-    middle: sma,
-    lower: sma - (standardDeviation * stdDev),
-  };
-}
-
-// Average volume
-function calculateAvgVolume(candles: Candle[], period: number = 20): number {
-  const recent = candles.slice(-period);
-  return recent.reduce((sum, c) => sum + c.volume, 0) / period;
-}
-
 /**
  * STEP 1: Analyze 15m trend
  * Your insight: "whichever direction it's moving on a grander scale"
@@ -90,17 +32,18 @@ function calculateAvgVolume(candles: Candle[], period: number = 20): number {
 export function analyzeTrend(candles15m: Candle[]): TrendSignal {
   const closes = candles15m.map(c => c.close);
   
-  const emaFast = calculateEMA(closes, config.strategy.trendEmaFast);
-  const emaSlow = calculateEMA(closes, config.strategy.trendEmaSlow);
+  const emaFast = last(ema(closes, config.kallisti.trendEmaFast));
+  const emaSlow = last(ema(closes, config.kallisti.trendEmaSlow));
   
   const diff = ((emaFast - emaSlow) / emaSlow) * 100;
   const strength = Math.abs(diff);
   
   let direction: "bullish" | "bearish" | "neutral";
   
-  if (diff > 0.15) {
+  const threshold = config.kallisti.trendThresholdPercent;
+  if (diff > threshold) {
     direction = "bullish";
-  } else if (diff < -0.15) {
+  } else if (diff < -threshold) {
     direction = "bearish";
   } else {
     direction = "neutral";
@@ -134,13 +77,9 @@ export function findEntry(
   const latestCandle = candles1m[candles1m.length - 1];
   
   // Calculate indicators
-  const rsi = calculateRSI(closes, config.strategy.rsiPeriod);
-  const bb = calculateBollingerBands(
-    closes,
-    config.strategy.bbPeriod,
-    config.strategy.bbStdDev
-  );
-  const avgVolume = calculateAvgVolume(candles1m, 20);
+  const rsi = last(rsiSeries(closes, config.kallisti.rsiPeriod));
+  const bb = bollinger(closes, config.kallisti.bbPeriod, config.kallisti.bbStdDev)[closes.length - 1];
+  const avgVolume = last(sma(candles1m.map(c => c.volume), config.kallisti.volumeLookback));
   
   // Determine BB position
   let bbPosition: "upper" | "middle" | "lower";
@@ -150,7 +89,7 @@ export function findEntry(
   
   // Volume check
   const volumeRatio = latestCandle.volume / avgVolume;
-  const hasVolume = volumeRatio >= config.strategy.volumeMultiplier;
+  const hasVolume = volumeRatio >= config.kallisti.volumeMultiplier;
   
   let action: "Long" | "Short" | "Hold" = "Hold";
   let confidence = 0;
@@ -159,7 +98,7 @@ export function findEntry(
   // LONG SETUP (bullish trend + pullback)
   if (trendDirection === "bullish") {
     // Looking for: RSI dipped low, price near lower BB, starting to bounce
-    const isPulledBack = rsi < config.strategy.rsiOversold + 5;
+    const isPulledBack = rsi < config.kallisti.rsiOversold + 5;
     const nearLowerBB = latestPrice <= bb.middle;
     const isBouncing = closes[closes.length - 1] > closes[closes.length - 2];
     
@@ -177,7 +116,7 @@ export function findEntry(
   // SHORT SETUP (bearish trend + bounce up)
   else if (trendDirection === "bearish") {
     // Looking for: RSI spiked high, price near upper BB, starting to drop
-    const isExtended = rsi > config.strategy.rsiOverbought - 5;
+    const isExtended = rsi > config.kallisti.rsiOverbought - 5;
     const nearUpperBB = latestPrice >= bb.middle;
     const isDropping = closes[closes.length - 1] < closes[closes.length - 2];
     
@@ -201,3 +140,38 @@ export function findEntry(
     bbPosition,
   };
 }
+
+export const kallistiStrategy: Strategy = {
+  name: "kallisti",
+  description: "15m EMA trend bias, 1m RSI/Bollinger pullback entries",
+  settings: config.kallisti,
+  get history() {
+    // Wilder RSI needs a few periods of smoothing before it settles
+    const k = config.kallisti;
+    return Math.max(k.rsiPeriod * 3, k.bbPeriod, k.volumeLookback);
+  },
+  get timeframes() {
+    return { [config.kallisti.trendInterval]: config.kallisti.trendCandles };
+  },
+  evaluate({ candles, timeframes }): StrategySignal {
+    const trendCandles = timeframes?.[config.kallisti.trendInterval] ?? [];
+    // The slow EMA needs a few periods to settle before its slope means anything
+    if (trendCandles.length < config.kallisti.trendEmaSlow || candles.length < this.history) {
+      return { detected: false, strength: 0, reason: "Not enough data", diagnostics: {} };
+    }
+    const trend = analyzeTrend(trendCandles);
+    const entry = findEntry(candles, trend.direction);
+    return {
+      detected: entry.action !== "Hold",
+      side: entry.action === "Hold" ? undefined : entry.action,
+      strength: entry.confidence / 100,
+      reason: entry.reason,
+      diagnostics: {
+        trend: trend.direction,
+        trendStrength: trend.strength,
+        rsi: entry.rsi,
+        bbPosition: entry.bbPosition,
+      },
+    };
+  },
+};
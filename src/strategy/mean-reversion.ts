@@ -0,0 +1,120 @@
+// Mean Reversion - fade stretched moves once the volume behind them runs out
+// Long when the close is below the lower Bollinger band AND below VWAP by vwapBandPercent,
+// Short mirrored; volume must be exhausting (no spike, lower than the candle before).
+// The signal carries the mean as targetPrice, and the position exits there.
+// Settings live in config.meanReversion; the brief switches to it in ranging/squeeze regimes.
+
+import { config } from "../config";
+import type { Candle } from "../types";
+import { bollinger, last, volumeZScore, vwap } from "../indicators";
+import type { Strategy, StrategySignal } from "./types";
+
+export type { Candle };
+
+const NOT_ENOUGH: StrategySignal = {
+  detected: false,
+  strength: 0,
+  reason: "Not enough data",
+  rule: "not-enough-data",
+  diagnostics: {},
+};
+
+export function detectMeanReversion(candles: Candle[]): StrategySignal {
+  const k = config.meanReversion;
+  if (candles.length < meanReversionStrategy.history) return NOT_ENOUGH;
+
+  const closes = candles.map(c => c.close);
+  const current = candles[candles.length - 1];
+  const previous = candles[candles.length - 2];
+  const price = current.close;
+
+  const bb = bollinger(closes, k.bbPeriod, k.bbStdDev)[closes.length - 1];
+  // Infinite session: VWAP of exactly the window, no UTC-midnight reset
+  const vw = last(vwap(candles.slice(-k.vwapCandles), Infinity));
+  const volumeZ = last(volumeZScore(candles, k.volumeLookback));
+  const vwapDev = ((price - vw) / vw) * 100;
+  const mean = k.meanSource === "vwap" ? vw : bb.middle;
+  const edge = (Math.abs(mean - price) / price) * 100;
+
+  const diagnostics = {
+    bbUpper: bb.upper,
+    bbMiddle: bb.middle,
+    bbLower: bb.lower,
+    vwap: vw,
+    vwapDev,
+    volumeZ,
+    mean,
+    edge,
+  };
+
+  let side: "Long" | "Short";
+  if (price < bb.lower && vwapDev <= -k.vwapBandPercent) side = "Long";
+  else if (price > bb.upper && vwapDev >= k.vwapBandPercent) side = "Short";
+  else {
+    return {
+      detected: false,
+      strength: 0,
+      reason: `Inside bands (VWAP ${vwapDev >= 0 ? "+" : ""}${vwapDev.toFixed(3)}%)`,
+      rule: "inside-bands",
+      diagnostics,
+    };
+  }
+
+  if (volumeZ > k.maxVolumeZ || current.volume >= previous.volume) {
+    return {
+      detected: false,
+      side,
+      strength: 0,
+      reason: `Volume still pushing (z ${volumeZ.toFixed(2)})`,
+      rule: "volume-not-exhausted",
+      diagnostics,
+    };
+  }
+
+  if (edge < k.minEdgePercent) {
+    return {
+      detected: false,
+      side,
+      strength: 0,
+      reason: `Mean too close (${edge.toFixed(3)}% < ${k.minEdgePercent}%)`,
+      rule: "no-edge",
+      diagnostics,
+    };
+  }
+
+  // How far past the band, in band widths: 1 = a full band width beyond it
+  const bandWidth = bb.stdDev * k.bbStdDev;
+  const beyond = side === "Long" ? bb.lower - price : price - bb.upper;
+  const strength = bandWidth > 0 ? Math.min(1, 0.5 + beyond / bandWidth / 2) : 0.5;
+
+  return {
+    detected: true,
+    side,
+    strength,
+    reason: `Fade ${side === "Long" ? "dip" : "spike"} to $${mean.toFixed(2)} (VWAP ${vwapDev.toFixed(3)}%, vol z ${volumeZ.toFixed(2)})`,
+    targetPrice: mean,
+    diagnostics,
+  };
+}
+
+export const meanReversionStrategy: Strategy = {
+  name: "mean-reversion",
+  description: "Fade Bollinger/VWAP stretches on exhausted volume, exit at the mean",
+  settings: config.meanReversion,
+  get history() {
+    const k = config.meanReversion;
+    // +1: the volume z-score compares against the lookback before the last candle
+    return Math.max(k.bbPeriod, k.vwapCandles, k.volumeLookback + 1);
+  },
+  get exits() {
+    const k = config.meanReversion;
+    return {
+      initialStopPercent: k.initialStopPercent,
+      underwaterCutSeconds: k.underwaterCutSeconds,
+      maxTradeSeconds: k.maxTradeSeconds,
+    };
+  },
+  evaluate({ candles }) {
+    return detectMeanReversion(candles);
+  },
+};
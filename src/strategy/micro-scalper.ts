@@ -2,15 +2,11 @@
 // Catch micro-fluctuations regardless of macro trend
 
 import { config } from "../config";
+import type { Candle } from "../types";
+import { mean } from "../indicators";
+import type { Strategy, StrategySignal } from "./types";
 
-export interface Candle {
-  time: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
+export type { Candle };
 
 export interface MomentumSignal {
   action: "Long" | "Short" | "Hold";
@@ -51,8 +47,7 @@ function calculateVolatility(candles: Candle[], period: number = 10): number {
  */
 function calculateAvgVolume(candles: Candle[]): number {
   const lookback = config.strategy.volumeLookback;
-  const recent = candles.slice(-lookback);
-  return recent.reduce((sum, c) => sum + c.volume, 0) / lookback;
+  return mean(candles.slice(-lookback).map(c => c.volume));
 }
 
 /**
@@ -181,3 +176,25 @@ export function findMomentumEntry(candles: Candle[]): MomentumSignal {
     volumeRatio: volume.ratio,
   };
 }
+
+export const noiseMomentumStrategy: Strategy = {
+  name: "noise-momentum",
+  description: "Momentum over config.strategy.momentumCandles closes with volatility and volume filters",
+  get history() {
+    return Math.max(config.strategy.momentumCandles, config.strategy.volumeLookback, 10);
+  },
+  evaluate({ candles }): StrategySignal {
+    // findMomentumEntry assumes a full window
+    if (candles.length < this.history) {
+      return { detected: false, strength: 0, reason: "Not enough data", diagnostics: {} };
+    }
+    const signal = findMomentumEntry(candles);
+    return {
+      detected: signal.action !== "Hold",
+      side: signal.action === "Hold" ? undefined : signal.action,
+      strength: signal.confidence / 100,
+      reason: signal.reason,
+      diagnostics: { momentum: signal.momentum, volatility: signal.volatility, volumeRatio: signal.volumeRatio },
+    };
+  },
+};
@@ -1,23 +1,42 @@
 // SNIPER v3.2 - Momentum detection with regime overrides
 // v3.2: detectMomentum now accepts optional threshold/chase overrides
 //       from the research agent's market brief. Still pure code, no LLM.
+// v3.3: Rejections name the rule that failed (for metrics)
+// v3.4: Signals carry the numbers each rule looked at (for the decision log)
 
 import { config } from "../config";
+import type { Candle } from "../types";
+import type { Strategy } from "./types";
 
-export interface Candle {
-  time: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
+export type { Candle };
+
+/** Which rule turned a scan down */
+export type MomentumRule =
+  | "not-enough-data"
+  | "mixed-direction"
+  | "small-candle"
+  | "weak"
+  | "late"
+  | "dead-volume";
+
+/** What the rules measured — only the ones reached before a rejection are set */
+export interface MomentumMetrics {
+  bodyPct?: number;           // Last candle body, %
+  movePct?: number;           // 2-candle move, %
+  minMove?: number;           // Threshold movePct had to beat
+  move5?: number;             // 5-candle move, %
+  maxChase?: number;          // Ceiling move5 had to stay under
+  volRatio?: number;          // Last 2 candles' volume vs the lookback average
+  threeInRow?: boolean;
 }
 
 export interface MomentumSignal {
   detected: boolean;
   reason?: string;
+  rule?: MomentumRule;        // Set when detected is false
   strength?: number;
   side?: "Long" | "Short";
+  metrics?: MomentumMetrics;
 }
 
 // v3.2: Added optional overrideThreshold and overrideChase params
@@ -28,12 +47,13 @@ export function detectMomentum(
   overrideChase?: number
 ): MomentumSignal {
   if (candles.length < 10) {
-    return { detected: false, reason: "Not enough data" };
+    return { detected: false, rule: "not-enough-data", reason: "Not enough data" };
   }
 
   const current = candles[candles.length - 1];
   const prev = candles[candles.length - 2];
   const prev2 = candles[candles.length - 3];
+  const metrics: MomentumMetrics = {};
   
   // RULE 1: LAST 2 CANDLES SAME DIRECTION
   const currentMove = current.close - current.open;
@@ -47,16 +67,21 @@ export function detectMomentum(
     const p = prevMove > 0 ? "↑" : prevMove < 0 ? "↓" : "→";
     return { 
       detected: false, 
-      reason: `Mixed direction (${p}${c}) @ $${current.close.toFixed(2)}`
+      rule: "mixed-direction",
+      reason: `Mixed direction (${p}${c}) @ $${current.close.toFixed(2)}`,
+      metrics,
     };
   }
 
   // RULE 2: MEANINGFUL BODY SIZE
   const currentBodyPct = Math.abs(currentMove) / current.open * 100;
+  metrics.bodyPct = currentBodyPct;
   if (currentBodyPct < 0.01) {
     return {
       detected: false,
-      reason: `Candle too small (${currentBodyPct.toFixed(4)}%) @ $${current.close.toFixed(2)}`
+      rule: "small-candle",
+      reason: `Candle too small (${currentBodyPct.toFixed(4)}%) @ $${current.close.toFixed(2)}`,
+      metrics,
     };
   }
 
@@ -65,12 +90,16 @@ export function detectMomentum(
   const totalMove = Math.abs(current.close - prev.open);
   const movePct = (totalMove / prev.open) * 100;
   const minMove = overrideThreshold ?? config.strategy.momentumThreshold;
+  metrics.movePct = movePct;
+  metrics.minMove = minMove;
   
   if (movePct < minMove) {
     const side = bothBullish ? "Long" : "Short";
     return {
       detected: false,
-      reason: `${side} but weak (${movePct.toFixed(3)}% < ${minMove}%) @ $${current.close.toFixed(2)}`
+      rule: "weak",
+      reason: `${side} but weak (${movePct.toFixed(3)}% < ${minMove}%) @ $${current.close.toFixed(2)}`,
+      metrics,
     };
   }
 
@@ -80,12 +109,16 @@ export function detectMomentum(
   const move5 = candles.length >= 5 
     ? Math.abs(current.close - candles[candles.length - 5].open) / candles[candles.length - 5].open * 100 
     : movePct;
+  metrics.move5 = move5;
+  metrics.maxChase = maxChase;
   
   if (move5 > maxChase) {
     const side = bothBullish ? "Long" : "Short";
     return {
       detected: false,
-      reason: `${side} but late (5m move ${move5.toFixed(3)}% > ${maxChase}%) @ $${current.close.toFixed(2)}`
+      rule: "late",
+      reason: `${side} but late (5m move ${move5.toFixed(3)}% > ${maxChase}%) @ $${current.close.toFixed(2)}`,
+      metrics,
     };
   }
 
@@ -95,18 +128,22 @@ export function detectMomentum(
   const avgVol = candles.slice(-lookback, -2).reduce((s, c) => s + c.volume, 0) / (lookback - 2);
   const recentVol = (current.volume + prev.volume) / 2;
   const volRatio = avgVol > 0 ? recentVol / avgVol : 1;
+  metrics.volRatio = volRatio;
   
   if (volRatio < 0.5) {
     const side = bothBullish ? "Long" : "Short";
     return {
       detected: false,
-      reason: `${side} but dead volume (${volRatio.toFixed(2)}x) @ $${current.close.toFixed(2)}`
+      rule: "dead-volume",
+      reason: `${side} but dead volume (${volRatio.toFixed(2)}x) @ $${current.close.toFixed(2)}`,
+      metrics,
     };
   }
 
   // BONUS: 3rd candle confirmation
   const prev2Move = prev2.close - prev2.open;
   const threeInRow = (bothBullish && prev2Move > 0) || (bothBearish && prev2Move < 0);
+  metrics.threeInRow = threeInRow;
   
   // FIRE!
   const side = bothBullish ? "Long" : "Short";
@@ -118,5 +155,25 @@ export function detectMomentum(
     side,
     reason: `🎯 ${side.toUpperCase()} [${confidence}]: ${movePct.toFixed(3)}% move, vol ${volRatio.toFixed(1)}x${threeInRow ? ", 3-candle run" : ""} @ $${current.close.toFixed(2)}`,
     strength,
+    metrics,
   };
 }
+
+export const momentumStrategy: Strategy = {
+  name: "momentum",
+  description: "2-candle momentum sniper with chase and dead-volume filters (default)",
+  get history() {
+    return Math.max(config.strategy.volumeLookback, 10);
+  },
+  evaluate({ candles, overrides }) {
+    const signal = detectMomentum(candles, overrides?.momentumThreshold, overrides?.maxChasePercent);
+    return {
+      detected: signal.detected,
+      side: signal.side,
+      strength: signal.strength ?? 0,
+      reason: signal.reason ?? "",
+      rule: signal.rule,
+      diagnostics: { ...signal.metrics },
+    };
+  },
+};
@@ -0,0 +1,50 @@
+// Strategy registry - every signal generator by name, picked with STRATEGY=<name>
+
+import { config } from "../config";
+import type { Candle } from "../types";
+import type { ExchangeAdapter } from "../exchange/types";
+import type { Strategy } from "./types";
+import { momentumStrategy } from "./momentum-strategy";
+import { threeCandleStrategy } from "./reversal-strategy";
+import { dipReversalStrategy } from "./reversal-detector";
+import { noiseMomentumStrategy } from "./micro-scalper";
+import { kallistiStrategy } from "./kallisti-scalper";
+import { meanReversionStrategy } from "./mean-reversion";
+import { ensembleStrategy } from "./ensemble";
+
+const STRATEGIES: Strategy[] = [
+  momentumStrategy,
+  threeCandleStrategy,
+  dipReversalStrategy,
+  noiseMomentumStrategy,
+  kallistiStrategy,
+  meanReversionStrategy,
+  ensembleStrategy,
+];
+
+export function listStrategies(): Strategy[] {
+  return [...STRATEGIES];
+}
+
+/** The configured strategy by default; throws on an unknown name so a typo can't trade the default */
+export function getStrategy(name: string = config.strategyName): Strategy {
+  const strategy = STRATEGIES.find(s => s.name === name);
+  if (!strategy) {
+    throw new Error(`Unknown strategy "${name}" (have: ${STRATEGIES.map(s => s.name).join(", ")})`);
+  }
+  return strategy;
+}
+
+/** Higher-timeframe candles the strategy asked for (undefined for the 1m-only ones) */
+export async function fetchTimeframes(
+  strategy: Strategy,
+  client: ExchangeAdapter,
+  symbol: string
+): Promise<Record<string, Candle[]> | undefined> {
+  if (!strategy.timeframes) return undefined;
+  const timeframes: Record<string, Candle[]> = {};
+  for (const [interval, limit] of Object.entries(strategy.timeframes)) {
+    timeframes[interval] = await client.getCandles(symbol, interval, limit);
+  }
+  return timeframes;
+}
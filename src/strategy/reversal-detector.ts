@@ -1,33 +1,16 @@
 // Reversal Detection - Buy the Dip Strategy
 import { Candle } from "../types";
 import { config } from "../config";
+import { mean, rsi as rsiSeries, sma } from "../indicators";
+import type { Strategy } from "./types";
+
+const RSI_PERIOD = 14;
 
 export interface ReversalSignal {
   detected: boolean;
   reason?: string;
   strength?: number; // 0-1, how strong the signal is
-}
-
-/**
- * Calculate RSI
- */
-function calculateRSI(candles: Candle[], period: number = 14): number {
-  if (candles.length < period + 1) return 50; // Not enough data
-  
-  const changes = [];
-  for (let i = candles.length - period - 1; i < candles.length - 1; i++) {
-    changes.push(candles[i + 1].close - candles[i].close);
-  }
-  
-  const gains = changes.filter(c => c > 0);
-  const losses = changes.filter(c => c < 0).map(c => Math.abs(c));
-  
-  const avgGain = gains.length > 0 ? gains.reduce((a, b) => a + b, 0) / period : 0;
-  const avgLoss = losses.length > 0 ? losses.reduce((a, b) => a + b, 0) / period : 0;
-  
-  if (avgLoss === 0) return 100;
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
+  metrics?: { rsi?: number; prevRsi?: number };
 }
 
 /**
@@ -58,24 +41,21 @@ function isGreenCandle(candle: Candle): boolean {
 function hasVolumeSpikeSpike(candles: Candle[], multiplier: number = 1.5): boolean {
   if (candles.length < config.strategy.volumeLookback + 1) return false;
   
-  const recent = candles.slice(-config.strategy.volumeLookback - 1, -1);
-  const avgVolume = recent.reduce((sum, c) => sum + c.volume, 0) / recent.length;
+  const avgVolume = mean(candles.slice(-config.strategy.volumeLookback - 1, -1).map(c => c.volume));
   const currentVolume = candles[candles.length - 1].volume;
   
   return currentVolume >= avgVolume * multiplier;
 }
 
 /**
- * Check if price is above EMA (not in major downtrend)
+ * Check if price is above its moving average (not in major downtrend)
  */
-function isPriceAboveEMA(candles: Candle[], period: number = 20): boolean {
+function isPriceAboveMA(candles: Candle[], period: number = 20): boolean {
   if (candles.length < period) return true; // Assume OK if not enough data
   
-  const recent = candles.slice(-period);
-  const ema = recent.reduce((sum, c) => sum + c.close, 0) / period;
-  const currentPrice = candles[candles.length - 1].close;
-  
-  return currentPrice > ema;
+  const closes = candles.map(c => c.close);
+  const ma = sma(closes, period)[closes.length - 1];
+  return closes[closes.length - 1] > ma;
 }
 
 /**
@@ -103,35 +83,36 @@ export function detectReversal(candles: Candle[]): ReversalSignal {
   }
   
   // 2. RSI oversold and climbing
-  const rsi = calculateRSI(candles);
-  const prevRsi = calculateRSI(candles.slice(0, -1));
+  const rsiValues = rsiSeries(candles.map(c => c.close), RSI_PERIOD);
+  const rsi = rsiValues[rsiValues.length - 1];
+  const prevRsi = rsiValues[rsiValues.length - 2];
   const rsiOversold = rsi < 35;
   const rsiClimbing = rsi > prevRsi;
   
   if (!rsiOversold) {
-    return { detected: false, reason: `RSI not oversold (${rsi.toFixed(1)})` };
+    return { detected: false, reason: `RSI not oversold (${rsi.toFixed(1)})`, metrics: { rsi, prevRsi } };
   }
   
   if (!rsiClimbing) {
-    return { detected: false, reason: "RSI not climbing" };
+    return { detected: false, reason: "RSI not climbing", metrics: { rsi, prevRsi } };
   }
   
   // 3. Green candle (reversal starting)
   const greenCandle = isGreenCandle(currentCandle);
   if (!greenCandle) {
-    return { detected: false, reason: "Waiting for green candle" };
+    return { detected: false, reason: "Waiting for green candle", metrics: { rsi, prevRsi } };
   }
   
   // 4. Volume spike
   const volumeSpike = hasVolumeSpikeSpike(candles, config.strategy.volumeMultiplier);
   if (!volumeSpike) {
-    return { detected: false, reason: "No volume spike" };
+    return { detected: false, reason: "No volume spike", metrics: { rsi, prevRsi } };
   }
   
   // 5. Not in major downtrend
-  const aboveEMA = isPriceAboveEMA(candles, 15);
-  if (!aboveEMA) {
-    return { detected: false, reason: "Below EMA (downtrend)" };
+  const aboveMA = isPriceAboveMA(candles, 15);
+  if (!aboveMA) {
+    return { detected: false, reason: "Below MA (downtrend)", metrics: { rsi, prevRsi } };
   }
   
   // All conditions met!
@@ -143,6 +124,26 @@ export function detectReversal(candles: Candle[]): ReversalSignal {
   return {
     detected: true,
     reason: `Reversal! RSI ${rsi.toFixed(1)} climbing, volume ${volumeSpike ? 'yes' : 'no'}`,
-    strength: Math.max(0, Math.min(1, strength))
+    strength: Math.max(0, Math.min(1, strength)),
+    metrics: { rsi, prevRsi },
   };
 }
+
+export const dipReversalStrategy: Strategy = {
+  name: "dip-reversal",
+  description: "Long-only dip buyer: local low, oversold RSI turning up, green candle on volume",
+  get history() {
+    // Wilder RSI needs a few periods of smoothing before it settles
+    return Math.max(20, config.strategy.volumeLookback + 1, RSI_PERIOD * 3);
+  },
+  evaluate({ candles }) {
+    const signal = detectReversal(candles);
+    return {
+      detected: signal.detected,
+      side: signal.detected ? "Long" : undefined,
+      strength: signal.strength ?? 0,
+      reason: signal.reason ?? "",
+      diagnostics: { ...signal.metrics },
+    };
+  },
+};
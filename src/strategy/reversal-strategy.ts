@@ -2,22 +2,19 @@
 // See it moving? Get in. Make $20. Get out.
 // No complex indicators. Just: direction + volume + confirmation.
 
-export interface Candle {
-  time: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
-
 import { config } from "../config";
+import type { Candle } from "../types";
+import { mean } from "../indicators";
+import type { Strategy } from "./types";
+
+export type { Candle };
 
 export interface ReversalSignal {
   detected: boolean;
   reason?: string;
   strength?: number;
   side?: "Long" | "Short";
+  metrics?: { movePercent?: number; volumeRatio?: number };
 }
 
 export function detectReversal(candles: Candle[]): ReversalSignal {
@@ -55,6 +52,7 @@ export function detectReversal(candles: Candle[]): ReversalSignal {
   if (movePercent < config.strategy.momentumThreshold) {
     return {
       detected: false,
+      metrics: { movePercent },
       reason: `Direction clear but move too small (${movePercent.toFixed(4)}% < ${config.strategy.momentumThreshold}%) @ $${current.close.toFixed(2)}`
     };
   }
@@ -63,7 +61,7 @@ export function detectReversal(candles: Candle[]): ReversalSignal {
   // Current volume should be at least average (not dying momentum)
   const lookback = Math.min(config.strategy.volumeLookback, candles.length - 3);
   const pastCandles = candles.slice(-(lookback + 3), -3);
-  const avgVolume = pastCandles.reduce((sum, c) => sum + c.volume, 0) / pastCandles.length;
+  const avgVolume = mean(pastCandles.map(c => c.volume));
   const currentVolume = current.volume;
   const volumeRatio = avgVolume > 0 ? currentVolume / avgVolume : 1;
 
@@ -71,6 +69,7 @@ export function detectReversal(candles: Candle[]): ReversalSignal {
     const side = allBullish ? "Long" : "Short";
     return {
       detected: false,
+      metrics: { movePercent, volumeRatio },
       reason: `${side} momentum but low volume (${volumeRatio.toFixed(2)}x < ${config.strategy.volumeMultiplier}x) @ $${current.close.toFixed(2)}`
     };
   }
@@ -83,6 +82,7 @@ export function detectReversal(candles: Candle[]): ReversalSignal {
     const side = allBullish ? "Long" : "Short";
     return {
       detected: false,
+      metrics: { movePercent, volumeRatio },
       reason: `${side} momentum but overextended (${movePercent.toFixed(3)}% > ${maxEntry}%) - too late @ $${current.close.toFixed(2)}`
     };
   }
@@ -96,5 +96,24 @@ export function detectReversal(candles: Candle[]): ReversalSignal {
     side,
     reason: `🎯 ${side.toUpperCase()} SNIPE: 3-candle ${side === "Long" ? "rally" : "dump"} (${movePercent.toFixed(3)}%, vol ${volumeRatio.toFixed(1)}x) @ $${current.close.toFixed(2)}`,
     strength,
+    metrics: { movePercent, volumeRatio },
   };
 }
+
+export const threeCandleStrategy: Strategy = {
+  name: "three-candle",
+  description: "3 candles the same way with volume, skipped when overextended",
+  get history() {
+    return Math.max(10, config.strategy.volumeLookback + 3);
+  },
+  evaluate({ candles }) {
+    const signal = detectReversal(candles);
+    return {
+      detected: signal.detected,
+      side: signal.side,
+      strength: signal.strength ?? 0,
+      reason: signal.reason ?? "",
+      diagnostics: { ...signal.metrics },
+    };
+  },
+};
@@ -0,0 +1,56 @@
+// Strategy plugin interface
+// Every signal generator is wrapped as a Strategy so the scan loop, backtest and
+// decision log can run any of them. Strategies stay pure: candles in, signal out.
+
+import type { Candle } from "../types";
+import type { ExitParams } from "../risk/recovery-manager";
+
+export type Side = "Long" | "Short";
+
+/** One strategy's vote behind an ensemble entry */
+export interface Contribution {
+  strategy: string;
+  weight: number;
+  strength: number;
+}
+
+/** What every strategy returns — the scan loop only reads these fields */
+export interface StrategySignal {
+  detected: boolean;
+  side?: Side;                // Set when detected (and on some rejections, for logging)
+  strength: number;           // 0-1
+  reason: string;
+  rule?: string;              // Which check turned the scan down, when the strategy names it
+  targetPrice?: number;       // Where to exit instead of the $ targets (mean reversion: the mean)
+  exits?: ExitParams;         // Replaces Strategy.exits for this entry (ensemble: the winning member's)
+  contributors?: Contribution[];  // Ensemble: the members that voted for this side
+  diagnostics: Record<string, number | boolean | string>;
+}
+
+/** Brief overrides a strategy may honour (the momentum sniper does) */
+export interface StrategyOverrides {
+  momentumThreshold?: number;
+  maxChasePercent?: number;
+}
+
+export interface StrategyInput {
+  candles: Candle[];                          // config.candleInterval, oldest first
+  timeframes?: Record<string, Candle[]>;      // Extra intervals requested via Strategy.timeframes
+  overrides?: StrategyOverrides;
+}
+
+export interface Strategy {
+  name: string;
+  description: string;
+  /** Candles of config.candleInterval evaluate() reads — fewer and it can't fire */
+  history: number;
+  /** Other intervals it needs, with how many candles of each, e.g. { "15m": 50 } */
+  timeframes?: Record<string, number>;
+  /** Its own config block, if it reads one besides config.strategy (snapshotted by the decision log) */
+  settings?: object;
+  /** Its own stop/underwater/timeout settings, stored on the positions it opens */
+  exits?: ExitParams;
+  /** Strategies it runs itself (the ensemble), so the decision log can snapshot their settings */
+  members?: Strategy[];
+  evaluate(input: StrategyInput): StrategySignal;
+}
@@ -0,0 +1,35 @@
+// Symbols - what the server scans and the settings each symbol trades with
+// config.symbolOverrides replaces leverage, size and thresholds per symbol; anything
+// unset falls back to the global config.
+
+import { config } from "./config";
+import type { Position } from "./risk/recovery-manager";
+
+export interface SymbolSettings {
+  symbol: string;
+  leverage: number;
+  positionSizeDollars: number;
+  momentumThreshold?: number;   // Unset = brief override, then config.strategy
+  maxChasePercent?: number;
+}
+
+export function symbolSettings(symbol: string): SymbolSettings {
+  const o = config.symbolOverrides[symbol] ?? {};
+  return {
+    symbol,
+    leverage: o.leverage ?? config.futures.leverage,
+    positionSizeDollars: o.positionSizeDollars ?? config.risk.positionSizeDollars,
+    momentumThreshold: o.momentumThreshold,
+    maxChasePercent: o.maxChasePercent,
+  };
+}
+
+/** Positions from before multi-symbol scanning have no symbol — they traded the primary one */
+export function symbolOf(position: Position): string {
+  return position.symbol ?? config.symbol;
+}
+
+/** "ETHUSDT" → "ETH", for log lines */
+export function baseAsset(symbol: string): string {
+  return symbol.replace(/(USDT|USDC|BUSD|USD)$/, "");
+}
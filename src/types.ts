@@ -0,0 +1,10 @@
+// Shared market data types
+
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}